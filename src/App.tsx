@@ -1,26 +1,71 @@
-import { useEffect, useState, FormEvent } from 'react';
+import { useEffect, useMemo, useRef, useState, FormEvent } from 'react';
 import { Layout } from './components/Layout';
 import { supabase } from './lib/supabase';
 import { User, SupabaseClient } from '@supabase/supabase-js';
 import { Sidebar } from './components/Sidebar';
-import { Send, Loader2, Copy, Check, Upload, Workflow as WorkflowIcon, AlertCircle } from 'lucide-react';
+import { Send, Loader2, Copy, Check, Upload, Workflow as WorkflowIcon, AlertCircle, RefreshCw, Pencil, ChevronLeft, ChevronRight, GitCompare, Square, Share2, BookOpen, Columns } from 'lucide-react';
 import { Routes, Route } from 'react-router-dom';
 import { WorkflowList } from './components/WorkflowList';
 import { UserManagement } from './components/UserManagement';
 import { ProfileSettings } from './components/ProfileSettings';
 import { PermissionsManagement } from './components/PermissionsManagement';
 import { AuthForm } from './components/AuthForm';
-import { testApi } from './lib/api';
-import type { WorkflowConfig } from './lib/types';
+import { MarkdownMessage } from './components/MarkdownMessage';
+import { SourcePanel } from './components/SourcePanel';
+import { normalizeSources } from './lib/sources';
+import { AnswerDiff } from './components/AnswerDiff';
+import { AttachmentChips } from './components/AttachmentChips';
+import { ComposerAttachments } from './components/ComposerAttachments';
+import { FeedbackControls } from './components/FeedbackControls';
+import { ExportMenu } from './components/ExportMenu';
+import { ShareDialog } from './components/ShareDialog';
+import { SharedConversationView } from './components/SharedConversationView';
+import { OutboxMessage } from './components/OutboxMessage';
+import { CommandSuggestions } from './components/CommandSuggestions';
+import { CommandPalette } from './components/CommandPalette';
+import { TemplateLibrary } from './components/TemplateLibrary';
+import { TemplateFillForm } from './components/TemplateFillForm';
+import { WorkflowVariableInputs } from './components/WorkflowVariableInputs';
+import { WorkflowCompare } from './components/WorkflowCompare';
+import { streamApi, isAbortError } from './lib/api';
+import { fetchConversationHistory } from './lib/context';
+import { uploadAttachment, saveAttachments, validateAttachment, isImageFile, getAttachmentUrl } from './lib/attachments';
+import { getActiveThread, getSiblings, selectBranch, selectPathTo } from './lib/branches';
+import { listOutboxEntries, saveOutboxEntry, removeOutboxEntry, isRetryableError, isDuplicateError, getRetryDelay } from './lib/outbox';
+import type { OutboxEntry } from './lib/outbox';
+import { parseSlashCommand, getCommandSuggestions, EXPORT_FORMATS } from './lib/commands';
+import type { ParsedCommand } from './lib/commands';
+import { exportConversation } from './lib/export';
+import type { ExportFormat } from './lib/export';
+import { fetchActiveWorkflows } from './lib/workflows';
+import { markConversationRead, subscribeToMessages } from './lib/conversations';
+import { fetchTemplates, extractPlaceholders } from './lib/templates';
+import { getInputVariables, getDefaultVariableValues, validateVariableValues } from './lib/variables';
+import type { BranchSelections } from './lib/branches';
+import type { Attachment, MessageFeedback, MessageSource, PromptTemplate, WorkflowConfig } from './lib/types';
 import toast from 'react-hot-toast';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom';
 
 interface MessageDisplay {
   id: string;
+  parentId: string | null;
   type: 'user' | 'assistant';
   text: string;
   timestamp: string;
+  attachments?: Attachment[];
   isFollowUp?: boolean;
+  incomplete?: boolean;
+  cancelled?: boolean;
+  feedback?: MessageFeedback | null;
+  // Values for the workflow's input variables, kept with the question
+  variables?: Record<string, string>;
+  sources?: MessageSource[];
+  // Follow-up questions the worker suggested, picked out by the response mapping
+  suggestions?: string[];
+  // Local-only notice for a failed request; never saved to `messages`
+  isError?: boolean;
+  // An answer that could not be saved; also marked isError so nothing builds on it
+  unsaved?: boolean;
 }
 
 interface Conversation {
@@ -55,29 +100,102 @@ async function logWorkflowEvent(
   }
 }
 
+const ANSWER_SAVE_ATTEMPTS = 3;
+
+function formatTimestamp(date: Date) {
+  return date.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+}
+
+function toMessageDisplay(msg: Record<string, any>): MessageDisplay {
+  return {
+    id: msg.id,
+    parentId: msg.parent_message_id,
+    type: msg.sender_type,
+    text: msg.text,
+    attachments: msg.attachments || [],
+    feedback: msg.message_feedback?.[0] ?? null,
+    variables: msg.details?.variables,
+    sources: normalizeSources(msg.details?.sources),
+    suggestions: msg.details?.suggestions,
+    isFollowUp: msg.sender_type === 'user' && !!msg.parent_message_id,
+    incomplete: msg.details?.incomplete === true,
+    cancelled: msg.details?.status === 'cancelled',
+    timestamp: formatTimestamp(new Date(msg.created_at))
+  };
+}
+
 function App() {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const routeConversationId = useMatch('/chat/:conversationId')?.params.conversationId ?? null;
+  const routeWorkflowId = useMatch('/w/:workflowId/new')?.params.workflowId ?? null;
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<MessageDisplay[]>([]);
+  const [messageTree, setMessageTree] = useState<MessageDisplay[]>([]);
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
   const [selectedChat, setSelectedChat] = useState<string | null>(null);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
   const [chatTitle, setChatTitle] = useState('New Chat');
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedWorkflow, setSelectedWorkflow] = useState<WorkflowConfig | null>(null);
+  const [conversationWorkflowId, setConversationWorkflowId] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [previousAnswer, setPreviousAnswer] = useState<string | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<Record<number, number>>({});
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [supabaseError, setSupabaseError] = useState<string | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [pendingAnswer, setPendingAnswer] = useState<MessageDisplay | null>(null);
+  const [workflows, setWorkflows] = useState<WorkflowConfig[]>([]);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [openSources, setOpenSources] = useState<{ sources: MessageSource[]; index: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const flushingRef = useRef(false);
+  // Outbox deliveries finish asynchronously, possibly after the user moved on
+  const selectedChatRef = useRef(selectedChat);
+  selectedChatRef.current = selectedChat;
+
+  const messages = useMemo(
+    () => getActiveThread(messageTree, branchSelections),
+    [messageTree, branchSelections]
+  );
 
   const isInputDisabled = !selectedWorkflow || isProcessing;
 
+  const inputVariables = useMemo(() => getInputVariables(selectedWorkflow), [selectedWorkflow]);
+
+  const commandSuggestions = useMemo(
+    () => getCommandSuggestions(message, {
+      workflowNames: workflows.map(w => w.name),
+      templateNames: templates.map(t => t.name)
+    }),
+    [message, workflows, templates]
+  );
+
   const handleCopy = async (id: string) => {
     try {
-      const messageElement = document.querySelector(`[data-message-id="${id}"]`);
-      if (messageElement) {
-        await navigator.clipboard.writeText(messageElement.textContent || '');
+      const copiedMessage = messages.find(m => m.id === id);
+      if (copiedMessage) {
+        await navigator.clipboard.writeText(copiedMessage.text);
       }
       setCopiedId(id);
       setTimeout(() => setCopiedId(null), 2000);
@@ -86,35 +204,45 @@ function App() {
     }
   };
 
-  const formatResponse = (text: string): string => {
-    let formattedText = text
-      .replace(/<a\s+(?:[^>]*?\s+)?href=(["'])(.*?)\1[^>]*>(.*?)<\/a>/g, '%%%LINK$1$2$1$3%%%')
-      .replace(/<sup\s+class="citation">(.*?)<\/sup>/g, '%%%CITATION$1%%%')
-      .replace(/^(#{1,6})\s+(.+)$/gm, (_, level, content) => {
-        const size = 7 - level.length;
-        return `<h${level.length} class="text-${size}xl font-bold mb-4">${content}</h${level.length}>`;
-      })
-      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_, text, url) => {
-        const sanitizedUrl = url.startsWith('http') ? url : `https://${url}`;
-        return `<a href="${sanitizedUrl}" target="_blank" rel="noopener noreferrer" class="text-[#BB86FC] hover:text-[#9B66DC] underline">${text}</a>`;
-      })
-      .replace(/^\s*[•*-]\s+(.+)$/gm, '<li>$1</li>')
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line)
-      .map(line => line.startsWith('<') ? line : `<p>${line}</p>`)
-      .join('\n')
-      .replace(/%%%LINK(["'])(.*?)\1(.*?)%%%/g, 
-        '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-[#BB86FC] hover:text-[#9B66DC] underline">$3</a>')
-      .replace(/%%%CITATION(.*?)%%%/g, '<sup class="citation">$1</sup>');
-
-    formattedText = formattedText
-      .replace(/(<li>.*<\/li>\n*)+/g, '<ul class="list-disc pl-6 space-y-2 my-4">$&</ul>')
-      .replace(/\n{3,}/g, '\n')
-      .trim();
-
-    return formattedText;
+  // Shared by the file picker, drag-and-drop and clipboard paste
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    if (!selectedWorkflow) {
+      toast.error('Please select a workflow first');
+      return;
+    }
+
+    if (isProcessing || Object.keys(uploadProgress).length > 0) {
+      toast.error('Please wait for the current message to finish');
+      return;
+    }
+
+    const accepted = files.flatMap(file => {
+      const error = validateAttachment(file, selectedWorkflow);
+      if (error) {
+        toast.error(`${file.name}: ${error}`);
+        return [];
+      }
+
+      // Pasted screenshots all arrive as "image.png"
+      if (file.name === 'image.png' && file.type === 'image/png') {
+        return [new File([file], `pasted-${Date.now()}.png`, { type: file.type })];
+      }
+      return [file];
+    });
+
+    setSelectedFiles(prev => [...prev, ...accepted]);
+  };
+
+  const upsertMessage = (msg: MessageDisplay) => {
+    setMessageTree(prev => prev.some(m => m.id === msg.id)
+      ? prev.map(m => m.id === msg.id ? msg : m)
+      : [...prev, msg]);
+  };
+
+  const showBranch = (msg: Pick<MessageDisplay, 'id' | 'parentId'>) => {
+    setBranchSelections(prev => selectBranch(prev, msg));
   };
 
   useEffect(() => {
@@ -135,44 +263,203 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // The URL decides which thread is open, so links, reloads and back/forward
+  // all land on the same chat
+  useEffect(() => {
+    if (routeConversationId) {
+      if (routeConversationId !== selectedChatRef.current) {
+        setSelectedChat(routeConversationId);
+      }
+      return;
+    }
+
+    if (routeWorkflowId) {
+      resetChat();
+      setMessage(searchParams.get('prompt') ?? '');
+    } else if (location.pathname === '/') {
+      resetChat();
+      setSelectedWorkflow(null);
+    }
+  }, [routeConversationId, routeWorkflowId, location.pathname]);
+
+  // Workflows load after the route is read, so resolve the id once they arrive
+  const routeTargetWorkflowId = routeWorkflowId ?? (routeConversationId ? conversationWorkflowId : null);
   useEffect(() => {
-    if (selectedChat) {
-      loadConversationMessages(selectedChat);
+    if (!routeTargetWorkflowId || workflows.length === 0) return;
+
+    const workflow = workflows.find(w => w.id === routeTargetWorkflowId);
+    if (!workflow) {
+      if (routeWorkflowId) toast.error('This workflow is not available');
+      return;
+    }
+    setSelectedWorkflow(prev => prev?.id === workflow.id ? prev : workflow);
+  }, [routeTargetWorkflowId, workflows]);
+
+  useEffect(() => {
+    if (!selectedChat) return;
+
+    // A conversation started from the outbox does not exist until it is sent
+    if (outbox.some(entry => entry.conversationId === selectedChat && entry.newConversationTitle !== null)) {
+      return;
     }
+
+    loadConversationMessages(selectedChat);
+  }, [selectedChat]);
+
+  // Messages saved by other tabs and devices, such as an answer that finished
+  // elsewhere. Ones this tab saved itself are already in the tree.
+  useEffect(() => {
+    if (!selectedChat) return;
+
+    return subscribeToMessages(selectedChat, {
+      onMessage: row => {
+        setMessageTree(prev => prev.some(m => m.id === row.id) ? prev : [...prev, toMessageDisplay(row)]);
+      },
+      onAttachment: row => {
+        setMessageTree(prev => prev.map(m =>
+          m.id === row.message_id && !m.attachments?.some(a => a.id === row.id)
+            ? { ...m, attachments: [...(m.attachments || []), row as Attachment] }
+            : m
+        ));
+      }
+    });
   }, [selectedChat]);
 
+  const latestAnswerId = useMemo(
+    () => [...messageTree].reverse().find(m => m.type === 'assistant' && !m.isError)?.id,
+    [messageTree]
+  );
+
+  // Answers are only saved once they finish, so wait for that before clearing
+  // the unread badge
+  useEffect(() => {
+    if (!selectedChat || !latestAnswerId || isProcessing) return;
+
+    markConversationRead(selectedChat)
+      .catch(error => console.error('Failed to mark conversation as read:', error));
+  }, [selectedChat, latestAnswerId, isProcessing]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchActiveWorkflows()
+      .then(setWorkflows)
+      .catch(error => console.error('Error fetching workflows:', error));
+  }, [user]);
+
+  useEffect(() => {
+    setSuggestionIndex(0);
+  }, [commandSuggestions.length]);
+
+  useEffect(() => {
+    setVariableValues(getDefaultVariableValues(inputVariables));
+  }, [inputVariables]);
+
+  useEffect(() => {
+    if (!selectedWorkflow) {
+      setTemplates([]);
+      return;
+    }
+
+    fetchTemplates(selectedWorkflow.id)
+      .then(setTemplates)
+      .catch(error => console.error('Error fetching templates:', error));
+  }, [selectedWorkflow, isTemplateLibraryOpen]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Anything still marked as sending was interrupted by a reload
+    listOutboxEntries(user.id)
+      .then(async entries => {
+        const restored = entries.map(entry =>
+          entry.status === 'sending' ? { ...entry, status: 'queued' as const } : entry
+        );
+        await Promise.all(restored
+          .filter((entry, i) => entry !== entries[i])
+          .map(saveOutboxEntry));
+        setOutbox(restored);
+      })
+      .catch(error => console.error('Failed to load outbox:', error));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    window.addEventListener('online', flushOutbox);
+
+    const queued = outbox.filter(entry => entry.status === 'queued');
+    const timeout = queued.length > 0
+      ? setTimeout(flushOutbox, Math.max(Math.min(...queued.map(entry => entry.nextAttemptAt)) - Date.now(), 0))
+      : undefined;
+
+    return () => {
+      window.removeEventListener('online', flushOutbox);
+      clearTimeout(timeout);
+    };
+  }, [outbox, user]);
+
+  // Ask for an answer once a delivered question is part of the thread on screen
+  useEffect(() => {
+    if (!pendingAnswer || !selectedChat || isProcessing) return;
+
+    const index = messages.findIndex(m => m.id === pendingAnswer.id);
+    if (index === -1) return;
+
+    setPendingAnswer(null);
+    requestAnswer(pendingAnswer, selectedChat, messages.slice(0, index));
+  }, [pendingAnswer, messages, selectedChat, isProcessing]);
+
+  // Jump to a message opened from search once its branch is on screen
+  useEffect(() => {
+    if (!focusMessageId) return;
+
+    if (!messages.some(m => m.id === focusMessageId)) {
+      if (messageTree.some(m => m.id === focusMessageId)) {
+        setBranchSelections(selectPathTo(messageTree, focusMessageId));
+      }
+      return;
+    }
+
+    document
+      .querySelector(`[data-message-id="${focusMessageId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(focusMessageId);
+    setFocusMessageId(null);
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [focusMessageId, messages, messageTree]);
+
+  const handleOpenMessage = (conversationId: string, messageId: string | null) => {
+    setFocusMessageId(messageId);
+    if (conversationId !== selectedChat) {
+      navigate(`/chat/${conversationId}`);
+    }
+  };
+
   const loadConversationMessages = async (conversationId: string) => {
     try {
       const { data: messages, error } = await supabase
         .from('messages')
-        .select('*')
+        .select('*, attachments(*), message_feedback(rating, reason, comment)')
         .eq('conversation_id', conversationId)
         .order('created_at', { ascending: true });
 
       if (error) throw error;
 
-      const formattedMessages: MessageDisplay[] = messages.map(msg => ({
-        id: msg.id,
-        type: msg.sender_type,
-        text: msg.text,
-        timestamp: new Date(msg.created_at).toLocaleTimeString('en-US', {
-          hour12: false,
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit'
-        })
-      }));
-
-      setMessages(formattedMessages);
+      setMessageTree(messages.map(toMessageDisplay));
+      setBranchSelections({});
 
       const { data: conversation } = await supabase
         .from('conversations')
-        .select('title')
+        .select('title, workflow_id')
         .eq('id', conversationId)
         .single();
 
       if (conversation) {
         setChatTitle(conversation.title);
+        setConversationWorkflowId(conversation.workflow_id);
       }
     } catch (error) {
       console.error('Error loading messages:', error);
@@ -180,209 +467,622 @@ function App() {
     }
   };
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!message.trim() && !selectedFile) return;
-    
-    const currentTime = new Date().toLocaleTimeString('en-US', {
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit'
-    });
-    
+  /**
+   * Asks the worker to answer `question` and adds the answer as a new branch
+   * below it. `priorThread` holds the messages shown above the question.
+   */
+  const requestAnswer = async (
+    question: MessageDisplay,
+    conversationId: string,
+    priorThread: MessageDisplay[]
+  ) => {
+    if (!selectedWorkflow) return;
+
+    const currentTime = formatTimestamp(new Date());
+    const assistantMessageId = crypto.randomUUID();
+    const previousAnswer = [...priorThread].reverse().find(m => m.type === 'assistant' && !m.isError)?.text;
+    const attachmentUrls = (question.attachments || []).map(getAttachmentUrl);
+    let streamedText = '';
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // The step that failed decides what is logged and kept; streamApi logs
+    // its own failures
+    let step: 'history' | 'answer' | 'save' = 'history';
+
+    setIsProcessing(true);
+    // A new attempt replaces the notice left by a failed one
+    setMessageTree(prev => prev.filter(m => !(m.isError && m.parentId === question.id)));
+    showBranch({ id: assistantMessageId, parentId: question.id });
+
     try {
-      if (!selectedWorkflow) {
-        throw new Error('Please select a workflow first');
+      // Rebuild the thread leading up to this question from the database
+      const history = await fetchConversationHistory(conversationId, question.parentId, selectedWorkflow.context_policy);
+
+      step = 'answer';
+      const response = await streamApi({
+        apiConfig: selectedWorkflow.api_config,
+        retryPolicy: selectedWorkflow.retry_policy,
+        variables: {
+          ...question.variables,
+          request: question.text,
+          workflow: selectedWorkflow.name,
+          documentUrl: attachmentUrls[0] ?? null,
+          ...(attachmentUrls.length > 0 && { attachmentUrls: JSON.stringify(attachmentUrls) }),
+          ...(previousAnswer && { previousAnswer }),
+          ...(history && { history })
+        },
+        workflowId: selectedWorkflow.id,
+        signal: abortController.signal,
+        onText: (text) => {
+          streamedText = text;
+          if (!text) return;
+          setStreamingMessageId(assistantMessageId);
+          upsertMessage({
+            id: assistantMessageId,
+            parentId: question.id,
+            type: 'assistant',
+            text,
+            timestamp: currentTime
+          });
+        }
+      });
+
+      if (!response.data || typeof response.data.response !== 'string') {
+        throw new Error('Invalid response format from API');
       }
 
-      if (!user) {
-        throw new Error('You must be logged in to send messages');
+      const responseText = response.data.response;
+      const { sources, details } = response.data;
+      const answerDetails = { ...(sources.length > 0 && { sources }), ...details };
+
+      const answer: MessageDisplay = {
+        id: assistantMessageId,
+        parentId: question.id,
+        type: 'assistant',
+        text: responseText,
+        sources,
+        suggestions: details.suggestions,
+        timestamp: currentTime
+      };
+      upsertMessage(answer);
+
+      step = 'save';
+      const assistantError = await saveAnswer({
+        id: assistantMessageId,
+        conversation_id: conversationId,
+        parent_message_id: question.id,
+        sender_type: 'assistant',
+        text: responseText,
+        details: Object.keys(answerDetails).length > 0 ? answerDetails : null
+      });
+
+      if (assistantError) {
+        console.error('Failed to insert assistant message:', {
+          error: assistantError,
+          conversationId
+        });
+        await logWorkflowEvent(supabase, selectedWorkflow.id, 'error', 'Failed to save assistant response', { error: assistantError });
+        // Kept on screen, but follow-ups, regenerating and branches skip it
+        upsertMessage({ ...answer, isError: true, unsaved: true });
+        throw assistantError;
       }
       
-      let documentUrl = null;
-      let uploadStartTime: number | null = null;
-      let conversationId = selectedChat;
-      
-      if (selectedFile) {
-        uploadStartTime = Date.now();
-        
-        const fileExt = selectedFile.name.split('.').pop()?.toLowerCase();
-        const isImage = fileExt && ['png', 'jpg', 'jpeg', 'gif'].includes(fileExt);
-        
-        if (isImage && !selectedWorkflow?.supports_images) {
-          throw new Error('Image uploads are not supported for this workflow');
-        }
-        
-        if (!isImage && !selectedWorkflow?.supports_documents) {
-          throw new Error('Document uploads are not supported for this workflow');
-        }
-        
-        const bucketName = isImage ? 'images' : 'documents';
-        const filePath = `${user.id}/${crypto.randomUUID()}.${fileExt}`;
-        
-        // Log the upload attempt
-        await logWorkflowEvent(supabase, selectedWorkflow.id, 'info', 'Starting file upload', {
-          fileType: isImage ? 'image' : 'document',
-          fileName: selectedFile.name,
-          fileSize: selectedFile.size,
-          bucket: bucketName
+      await logWorkflowEvent(supabase, selectedWorkflow.id, 'info', 'Message exchange completed successfully', {
+        conversationId,
+        requestLength: question.text.length,
+        responseLength: responseText.length,
+        attachmentCount: attachmentUrls.length,
+        isFollowUp: !!previousAnswer,
+        historyLength: history.length
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        await saveCancelledAnswer(assistantMessageId, question, conversationId, streamedText, currentTime);
+        return;
+      }
+
+      console.error('Error requesting answer:', error);
+
+      if (step === 'save') {
+        // The answer arrived but was not saved; its id is not reused for a
+        // partial answer
+        toast.error('Failed to save the answer');
+        return;
+      }
+
+      if (streamedText) {
+        // Keep whatever the worker produced before the stream broke off
+        upsertMessage({
+          id: assistantMessageId,
+          parentId: question.id,
+          type: 'assistant',
+          text: streamedText,
+          timestamp: currentTime,
+          incomplete: true
         });
-        
-        const { error: uploadError, data } = await supabase.storage
-          .from(bucketName)
-          .upload(filePath, selectedFile, {
-            onUploadProgress: (progress) => {
-              setUploadProgress((progress.loaded / progress.total) * 100);
+
+        const { error: partialError } = await supabase
+          .from('messages')
+          .insert({
+            id: assistantMessageId,
+            conversation_id: conversationId,
+            parent_message_id: question.id,
+            sender_type: 'assistant',
+            text: streamedText,
+            details: {
+              incomplete: true,
+              error: error instanceof Error ? error.message : 'Unknown error'
             }
           });
 
-        if (uploadError) throw uploadError;
+        if (partialError) {
+          console.error('Failed to insert partial assistant message:', {
+            error: partialError,
+            conversationId
+          });
+        }
+      } else {
+        upsertMessage({
+          id: assistantMessageId,
+          parentId: question.id,
+          type: 'assistant',
+          text: error instanceof Error ? error.message : 'An unexpected error occurred',
+          timestamp: currentTime,
+          isError: true
+        });
+      }
+      
+      if (step === 'history') {
+        await logWorkflowEvent(supabase, selectedWorkflow.id, 'error', 'Error processing message', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          stack: error instanceof Error ? error.stack : undefined
+        });
+      }
+      toast.error('Failed to process message');
+    } finally {
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+      setStreamingMessageId(null);
+    }
+  };
+
+  // Retried because the worker would have to run again to get the answer back
+  const saveAnswer = async (row: Record<string, unknown>) => {
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= ANSWER_SAVE_ATTEMPTS; attempt++) {
+      const { error } = await supabase.from('messages').insert(row);
+      // An earlier attempt may have been saved even though its response was lost
+      if (!error || isDuplicateError(error)) return null;
+
+      lastError = error;
+      if (!isRetryableError(error) || attempt === ANSWER_SAVE_ATTEMPTS) break;
+      await new Promise(resolve => setTimeout(resolve, getRetryDelay(attempt)));
+    }
+    return lastError;
+  };
+
+  const saveCancelledAnswer = async (
+    assistantMessageId: string,
+    question: MessageDisplay,
+    conversationId: string,
+    partialText: string,
+    currentTime: string
+  ) => {
+    upsertMessage({
+      id: assistantMessageId,
+      parentId: question.id,
+      type: 'assistant',
+      text: partialText,
+      timestamp: currentTime,
+      cancelled: true
+    });
 
-        const uploadDuration = Date.now() - uploadStartTime;
-        
-        const { data: urlData } = supabase.storage
-          .from(bucketName)
-          .getPublicUrl(filePath);
-        
-        if (!urlData?.publicUrl) {
-          throw new Error('Failed to generate public URL for uploaded file');
+    const { error: cancelError } = await supabase
+      .from('messages')
+      .insert({
+        id: assistantMessageId,
+        conversation_id: conversationId,
+        parent_message_id: question.id,
+        sender_type: 'assistant',
+        text: partialText,
+        details: {
+          status: 'cancelled',
+          incomplete: !!partialText
         }
+      });
+
+    if (cancelError) {
+      console.error('Failed to insert cancelled assistant message:', {
+        error: cancelError,
+        conversationId
+      });
+    }
+
+    if (selectedWorkflow) {
+      await logWorkflowEvent(supabase, selectedWorkflow.id, 'warning', 'Request cancelled by user', {
+        conversationId,
+        messageId: assistantMessageId,
+        receivedLength: partialText.length
+      });
+    }
+    toast('Request cancelled');
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const saveUserMessage = async (conversationId: string, userMessage: MessageDisplay) => {
+    // Outbox retries may repeat an insert whose response was lost
+    const { error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        id: userMessage.id,
+        conversation_id: conversationId,
+        parent_message_id: userMessage.parentId,
+        sender_type: 'user',
+        text: userMessage.text,
+        details: userMessage.variables ? { variables: userMessage.variables } : null
+      });
+
+    if (messageError && !isDuplicateError(messageError)) {
+      console.error('Failed to insert user message:', {
+        error: messageError,
+        conversationId,
+        userId: user?.id
+      });
+      throw messageError;
+    }
+
+    try {
+      await saveAttachments(userMessage.id, userMessage.attachments || []);
+    } catch (error) {
+      if (!isDuplicateError(error)) throw error;
+    }
+
+    if (selectedChatRef.current !== conversationId) return;
+
+    // Error notices are never saved, so they should not linger in the thread
+    setMessageTree(prev => [...prev.filter(m => !m.isError && m.id !== userMessage.id), userMessage]);
+    showBranch(userMessage);
+  };
 
-        documentUrl = urlData.publicUrl;
-        
-        await logWorkflowEvent(supabase, selectedWorkflow.id, 'info', 'File uploaded successfully', {
-          filePath,
-          duration: uploadDuration,
-          documentUrl,
-          fileType: isImage ? 'image' : 'document'
+  const persistOutboxEntry = async (entry: OutboxEntry) => {
+    setOutbox(prev => prev.some(e => e.id === entry.id)
+      ? prev.map(e => e.id === entry.id ? entry : e)
+      : [...prev, entry]);
+
+    try {
+      await saveOutboxEntry(entry);
+    } catch (error) {
+      console.error('Failed to persist outbox entry:', error);
+    }
+  };
+
+  const discardOutboxEntry = async (entry: OutboxEntry) => {
+    setOutbox(prev => prev.filter(e => e.id !== entry.id));
+
+    try {
+      await removeOutboxEntry(entry.id);
+    } catch (error) {
+      console.error('Failed to remove outbox entry:', error);
+    }
+  };
+
+  /**
+   * Uploads the entry's files, creates its conversation if needed and saves
+   * the question, recording progress in the outbox after every step so a
+   * retry picks up where the last attempt stopped.
+   */
+  const sendOutboxEntry = async (
+    entry: OutboxEntry,
+    onProgress?: (index: number, percent: number) => void
+  ) => {
+    let current: OutboxEntry = { ...entry, status: 'sending', error: null };
+    const update = async (changes: Partial<OutboxEntry>) => {
+      current = { ...current, ...changes };
+      await persistOutboxEntry(current);
+    };
+
+    try {
+      await update({});
+
+      while (current.files.length > 0) {
+        const [file, ...remaining] = current.files;
+        const index = current.attachments.length;
+        const uploadStartTime = Date.now();
+        const fileType = isImageFile(file) ? 'image' : 'document';
+
+        // Log the upload attempt
+        await logWorkflowEvent(supabase, current.workflowId, 'info', 'Starting file upload', {
+          fileType,
+          fileName: file.name,
+          fileSize: file.size
+        });
+
+        const attachment = await uploadAttachment(file, current.userId, (percent) => {
+          onProgress?.(index, percent);
+        });
+
+        await logWorkflowEvent(supabase, current.workflowId, 'info', 'File uploaded successfully', {
+          filePath: attachment.path,
+          bucket: attachment.bucket,
+          duration: Date.now() - uploadStartTime,
+          checksum: attachment.checksum,
+          fileType
         });
 
-        console.log('Generated file URL:', documentUrl);
+        await update({ files: remaining, attachments: [...current.attachments, attachment] });
       }
 
-      // Create a new conversation if none is selected
-      if (!conversationId) {
-        const { data: conversation, error: conversationError } = await supabase
+      if (current.newConversationTitle !== null) {
+        const { error: conversationError } = await supabase
           .from('conversations')
           .insert({
-            title: message,
-            workflow_id: selectedWorkflow.id,
-            created_by: user.id
-          })
-          .select()
-          .single();
-
-        if (conversationError) {
+            id: current.conversationId,
+            title: current.newConversationTitle,
+            workflow_id: current.workflowId,
+            created_by: current.userId
+          });
+
+        if (conversationError && !isDuplicateError(conversationError)) {
           console.error('Failed to create conversation:', {
             error: conversationError,
-            workflowId: selectedWorkflow.id,
-            userId: user.id
+            workflowId: current.workflowId,
+            userId: current.userId
           });
           throw conversationError;
         }
 
-        conversationId = conversation.id;
-        setSelectedChat(conversation.id);
-        setChatTitle(message);
-      }
-
-      // Save user message
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_type: 'user',
-          text: message,
-          document_url: documentUrl
-        });
-
-      if (messageError) {
-        console.error('Failed to insert user message:', {
-          error: messageError,
-          conversationId,
-          userId: user.id
-        });
-        throw messageError;
+        await update({ newConversationTitle: null });
       }
 
       const userMessage: MessageDisplay = {
-        id: crypto.randomUUID(),
+        id: current.id,
+        parentId: current.parentId,
         type: 'user',
-        text: message,
-        timestamp: currentTime,
-        isFollowUp: !!previousAnswer
+        text: current.text,
+        timestamp: formatTimestamp(new Date(current.createdAt)),
+        isFollowUp: !!current.parentId,
+        attachments: current.attachments,
+        variables: current.variables
       };
-    
-      setMessage('');
-      setMessages(prev => [...prev, userMessage]);
-      setIsProcessing(true);
-
-      const response = await testApi({
-        workerId: selectedWorkflow.worker_id,
-        apiAuthToken: selectedWorkflow.api_auth_token,
-        apiConfig: {
-          method: 'post',
-          url: 'https://api.mindstudio.ai/developer/v2/workers/run',
-          content_type: 'application/json'
-        },
-        variables: {
-          request: message,
-          workflow: selectedWorkflow.name,
-          documentUrl: documentUrl,
-          ...(previousAnswer && { previousAnswer })
-        }
+
+      await saveUserMessage(current.conversationId, userMessage);
+      await discardOutboxEntry(current);
+
+      if (selectedChatRef.current === current.conversationId) {
+        setPendingAnswer(userMessage);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error sending message:', error);
+
+      const retryable = isRetryableError(error);
+      const attempts = current.attempts + 1;
+      await update({
+        status: retryable ? 'queued' : 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        error: error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? 'Unknown error')
       });
 
-      if (!response.data || typeof response.data.response !== 'string') {
-        throw new Error('Invalid response format from API');
+      await logWorkflowEvent(supabase, current.workflowId, 'error', 'Error sending message', {
+        error: current.error,
+        attempts,
+        retryable
+      });
+
+      if (attempts === 1) {
+        if (retryable) {
+          toast('Message queued, it will be sent automatically');
+        } else {
+          toast.error('Failed to send message');
+        }
       }
+      return false;
+    }
+  };
 
-      const formattedText = formatResponse(response.data.response);
+  // Delivers due entries one at a time, oldest first, so follow-ups queued
+  // behind an earlier question keep their order
+  const flushOutbox = async () => {
+    if (!user || flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
 
-      const { error: assistantError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_type: 'assistant',
-          text: formattedText
-        });
+    try {
+      const entries = await listOutboxEntries(user.id);
+      for (const entry of entries) {
+        if (entry.status !== 'queued' || entry.nextAttemptAt > Date.now()) continue;
+        if (!(await sendOutboxEntry(entry))) break;
+      }
+    } catch (error) {
+      console.error('Failed to flush outbox:', error);
+    } finally {
+      flushingRef.current = false;
+    }
+  };
 
-      if (assistantError) {
-        console.error('Failed to insert assistant message:', {
-          error: assistantError,
-          conversationId
-        });
-        await logWorkflowEvent(supabase, selectedWorkflow.id, 'error', 'Failed to save assistant response', { error: assistantError });
-        throw assistantError;
+  const retryOutboxEntry = (entry: OutboxEntry) => {
+    persistOutboxEntry({ ...entry, status: 'queued', nextAttemptAt: Date.now() });
+  };
+
+  const resetChat = () => {
+    setOpenSources(null);
+    setMessageTree([]);
+    setBranchSelections({});
+    setSelectedChat(null);
+    setConversationWorkflowId(null);
+    setChatTitle('New Chat');
+  };
+
+  const startNewChat = (workflow: WorkflowConfig | null) => {
+    navigate(workflow ? `/w/${workflow.id}/new` : '/');
+  };
+
+  const applyTemplate = (template: PromptTemplate) => {
+    setIsTemplateLibraryOpen(false);
+    if (extractPlaceholders(template.body).length > 0) {
+      setFillingTemplate(template);
+    } else {
+      setMessage(template.body);
+    }
+  };
+
+  const runSlashCommand = async ({ name, argument }: ParsedCommand) => {
+    switch (name) {
+      case 'workflow': {
+        const workflow = workflows.find(w => w.name.toLowerCase() === argument.toLowerCase())
+          ?? workflows.find(w => w.name.toLowerCase().includes(argument.toLowerCase()));
+        if (!argument || !workflow) {
+          toast.error(argument ? `No workflow named "${argument}"` : 'Usage: /workflow <name>');
+          return;
+        }
+        setSelectedWorkflow(workflow);
+        startNewChat(workflow);
+        toast.success(`Switched to ${workflow.name}`);
+        break;
+      }
+      case 'new':
+        startNewChat(selectedWorkflow);
+        break;
+      case 'export': {
+        const format = (argument || 'markdown').toLowerCase() as ExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) {
+          toast.error('Usage: /export [markdown|json|pdf]');
+          return;
+        }
+        if (!selectedChat) {
+          toast.error('There is no conversation to export yet');
+          return;
+        }
+        try {
+          await exportConversation(selectedChat, format, branchSelections);
+        } catch (error) {
+          console.error('Error exporting conversation:', error);
+          toast.error(error instanceof Error ? error.message : 'Failed to export conversation');
+          return;
+        }
+        break;
+      }
+      case 'attach':
+        if (!fileInputRef.current) {
+          toast.error('This workflow does not accept attachments');
+          return;
+        }
+        fileInputRef.current.click();
+        break;
+      case 'template': {
+        const template = templates.find(t => t.name.toLowerCase() === argument.toLowerCase())
+          ?? templates.find(t => t.name.toLowerCase().includes(argument.toLowerCase()));
+        if (argument && !template) {
+          toast.error(`No template named "${argument}"`);
+          return;
+        }
+        setMessage('');
+        if (argument && template) {
+          applyTemplate(template);
+        } else {
+          setIsTemplateLibraryOpen(true);
+        }
+        return;
       }
+    }
 
-      const assistantMessage: MessageDisplay = {
-        id: crypto.randomUUID(),
-        type: 'assistant',
-        text: formattedText,
-        timestamp: currentTime
-      };
+    setMessage('');
+  };
 
-      setMessages(prev => [...prev, assistantMessage]);
-      setPreviousAnswer(formattedText);
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!message.trim() && selectedFiles.length === 0) return;
+
+    const command = parseSlashCommand(message);
+    if (command) {
+      await runSlashCommand(command);
+      return;
+    }
+    
+    const currentTime = formatTimestamp(new Date());
+    const priorThread = messages.filter(m => !m.isError);
+    const parentId = priorThread[priorThread.length - 1]?.id ?? null;
+
+    try {
+      if (!selectedWorkflow) {
+        throw new Error('Please select a workflow first');
+      }
+
+      if (!user) {
+        throw new Error('You must be logged in to send messages');
+      }
       
-      await logWorkflowEvent(supabase, selectedWorkflow.id, 'info', 'Message exchange completed successfully', {
+      const uploadError = selectedFiles
+        .map(file => validateAttachment(file, selectedWorkflow))
+        .find(Boolean);
+      if (uploadError) {
+        throw new Error(uploadError);
+      }
+
+      const variableError = validateVariableValues(inputVariables, variableValues);
+      if (variableError) {
+        throw new Error(variableError);
+      }
+
+      // New conversations get their id up front so queued follow-ups can
+      // refer to them before they exist
+      const conversationId = selectedChat ?? crypto.randomUUID();
+      const queuedBefore = outbox.filter(entry => entry.conversationId === conversationId);
+      const sendNow = navigator.onLine && queuedBefore.length === 0;
+
+      const entry: OutboxEntry = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        workflowId: selectedWorkflow.id,
         conversationId,
-        requestLength: message.length,
-        responseLength: formattedText.length,
-        hadDocument: !!documentUrl,
-        isFollowUp: !!previousAnswer
+        newConversationTitle: selectedChat ? null : message,
+        parentId: queuedBefore[queuedBefore.length - 1]?.id ?? parentId,
+        text: message,
+        variables: inputVariables.length > 0 ? { ...variableValues } : undefined,
+        files: selectedFiles,
+        attachments: [],
+        // Claimed for sending right away, so a flush of the outbox skips it
+        status: sendNow ? 'sending' : 'queued',
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        error: null,
+        createdAt: Date.now()
+      };
+
+      await persistOutboxEntry(entry);
+      setMessage('');
+
+      if (!selectedChat) {
+        setSelectedChat(conversationId);
+        setChatTitle(message);
+        navigate(`/chat/${conversationId}`, { replace: !!routeWorkflowId });
+      }
+
+      if (!sendNow) {
+        if (!navigator.onLine) {
+          toast('You are offline, your message will be sent when you reconnect');
+        }
+        flushOutbox();
+        return;
+      }
+
+      await sendOutboxEntry(entry, (index, percent) => {
+        setUploadProgress(prev => ({ ...prev, [index]: percent }));
       });
     } catch (error) {
       console.error('Error in message submission:', error);
-      const errorMessage: MessageDisplay = {
+      upsertMessage({
         id: crypto.randomUUID(),
+        parentId,
         type: 'assistant',
         text: error instanceof Error ? error.message : 'An unexpected error occurred',
-        timestamp: currentTime
-      };
-      setMessages(prev => [...prev, errorMessage]);
+        timestamp: currentTime,
+        isError: true
+      });
       
       if (selectedWorkflow) {
         await logWorkflowEvent(supabase, selectedWorkflow.id, 'error', 'Error processing message', {
@@ -392,10 +1092,55 @@ function App() {
       }
       toast.error('Failed to process message');
     } finally {
-      setIsProcessing(false);
-      setSelectedFile(null);
-      setUploadProgress(0);
+      setSelectedFiles([]);
+      setUploadProgress({});
+    }
+  };
+
+  const handleRegenerate = async (answer: MessageDisplay) => {
+    const index = messages.findIndex(m => m.id === answer.parentId);
+    const question = messages[index];
+    if (!selectedChat || !question || question.type !== 'user') return;
+
+    setComparingId(null);
+    await requestAnswer(question, selectedChat, messages.slice(0, index));
+  };
+
+  const handleRequestAnswer = async (question: MessageDisplay) => {
+    const index = messages.findIndex(m => m.id === question.id);
+    if (!selectedChat || index === -1) return;
+
+    await requestAnswer(question, selectedChat, messages.slice(0, index));
+  };
+
+  const handleEditResend = async (original: MessageDisplay) => {
+    const text = editText.trim();
+    if (!selectedChat || !text) return;
+
+    const index = messages.findIndex(m => m.id === original.id);
+    const editedMessage: MessageDisplay = {
+      id: crypto.randomUUID(),
+      parentId: original.parentId,
+      type: 'user',
+      text,
+      timestamp: formatTimestamp(new Date()),
+      isFollowUp: original.isFollowUp,
+      variables: original.variables,
+      // Reuse the uploaded files, but as new rows owned by the edited message
+      attachments: original.attachments?.map(attachment => ({ ...attachment, id: crypto.randomUUID() }))
+    };
+
+    try {
+      await saveUserMessage(selectedChat, editedMessage);
+      setEditingMessageId(null);
+      setEditText('');
+    } catch (error) {
+      console.error('Error saving edited message:', error);
+      toast.error('Failed to save edited message');
+      return;
     }
+
+    await requestAnswer(editedMessage, selectedChat, messages.slice(0, index));
   };
 
   const handleSignOut = async () => {
@@ -414,11 +1159,24 @@ function App() {
   }
 
   if (!user) {
+    const signInPage = (notice?: string) => (
+      <div className="min-h-screen bg-[#121212] flex flex-col items-center justify-center p-4">
+        {notice && <p className="mb-4 text-[#E0E0E0]">{notice}</p>}
+        <AuthForm />
+      </div>
+    );
+
     return (
       <Layout user={false}>
-        <div className="min-h-screen bg-[#121212] flex items-center justify-center p-4">
-          <AuthForm />
-        </div>
+        <Routes>
+          {/* Share links work without an account; direct shares need the recipient to sign in */}
+          <Route path="/shared/:token" element={<SharedConversationView />} />
+          <Route
+            path="/shared/conversation/:conversationId"
+            element={signInPage('Sign in to view the conversation shared with you.')}
+          />
+          <Route path="*" element={signInPage()} />
+        </Routes>
       </Layout>
     );
   }
@@ -444,32 +1202,87 @@ function App() {
         <Route path="/users" element={<UserManagement />} />
         <Route path="/permissions" element={<PermissionsManagement />} />
         <Route path="/profile" element={<ProfileSettings />} />
+        <Route path="/shared/:token" element={<SharedConversationView />} />
+        <Route path="/shared/conversation/:conversationId" element={<SharedConversationView />} />
         <Route
           path="/"
           element={
             <div className="flex h-screen bg-[#121212]">
               <Sidebar
-                onNewChat={() => {
-                  setMessages([]);
-                  setSelectedChat(null);
-                  setChatTitle('New Chat');
-                  setSelectedWorkflow(null);
-                  setPreviousAnswer(null);
-                }}
+                onNewChat={() => startNewChat(null)}
                 selectedChat={selectedChat}
                 selectedWorkflow={selectedWorkflow}
-                onSelectWorkflow={setSelectedWorkflow}
-                onSelectChat={setSelectedChat}
+                onSelectWorkflow={(workflow) => {
+                  // Switching workflows mid-conversation keeps the thread open
+                  if (selectedChat) {
+                    setSelectedWorkflow(workflow);
+                  } else {
+                    startNewChat(workflow);
+                  }
+                }}
+                onSelectChat={(id) => id ? navigate(`/chat/${id}`) : startNewChat(selectedWorkflow)}
+                onRenameChat={(id, title) => {
+                  if (id === selectedChat) setChatTitle(title);
+                }}
+                onOpenMessage={handleOpenMessage}
               />
-              <div className="flex-1 flex flex-col relative">
+              <div
+                className="flex-1 flex flex-col relative"
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes('Files')) return;
+                  e.preventDefault();
+                  setIsDraggingFiles(true);
+                }}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                    setIsDraggingFiles(false);
+                  }
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setIsDraggingFiles(false);
+                  addFiles(Array.from(e.dataTransfer.files));
+                }}
+              >
+                {isDraggingFiles && (
+                  <div className="absolute inset-0 z-20 flex items-center justify-center bg-[#121212]/80 border-2 border-dashed border-[#BB86FC] rounded-lg pointer-events-none">
+                    <div className="flex flex-col items-center space-y-2 text-[#E0E0E0]">
+                      <Upload className="w-10 h-10 text-[#BB86FC]" />
+                      <span>Drop files to attach them</span>
+                    </div>
+                  </div>
+                )}
                 <div className="bg-[#1F1F1F] p-4 border-b border-[#2D2D2D] shadow-lg">
                   <div className="flex items-center justify-between">
                     <h2 className="text-[#E0E0E0] text-lg font-medium">{chatTitle}</h2>
-                    {selectedWorkflow && (
-                      <span className="text-sm text-[#BB86FC]">
-                        Using: {selectedWorkflow.name}
-                      </span>
-                    )}
+                    <div className="flex items-center space-x-4">
+                      {selectedWorkflow && (
+                        <span className="text-sm text-[#BB86FC]">
+                          Using: {selectedWorkflow.name}
+                        </span>
+                      )}
+                      {workflows.length > 1 && (
+                        <button
+                          onClick={() => setIsCompareOpen(true)}
+                          className="text-gray-400 hover:text-[#BB86FC] transition-colors"
+                          title="Compare workflows"
+                        >
+                          <Columns className="h-4 w-4" />
+                        </button>
+                      )}
+                      {selectedChat && (
+                        <>
+                          <button
+                            onClick={() => setIsShareDialogOpen(true)}
+                            className="text-gray-400 hover:text-[#BB86FC] transition-colors"
+                            title="Share conversation"
+                          >
+                            <Share2 className="h-4 w-4" />
+                          </button>
+                          <ExportMenu conversationId={selectedChat} selections={branchSelections} />
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
                 <div className="flex-1 overflow-y-auto p-4 space-y-6">
@@ -482,7 +1295,18 @@ function App() {
                       </div>
                     </div>
                   )}
-                  {messages.map((msg) => (
+                  {messages.map((msg) => {
+                    // Error notices are not answers; only the one on screen is counted
+                    const siblings = getSiblings(messageTree.filter(m => !m.isError || m.id === msg.id), msg);
+                    const branchIndex = siblings.findIndex(s => s.id === msg.id);
+                    const compareWith = siblings[branchIndex - 1] ?? siblings[branchIndex + 1];
+                    const canRegenerate = msg.type === 'assistant' && !!selectedChat &&
+                      messages.some(m => m.id === msg.parentId && m.type === 'user');
+                    // e.g. the connection dropped after the question was saved
+                    const isUnanswered = msg.type === 'user' && !!selectedChat && pendingAnswer?.id !== msg.id &&
+                      !messageTree.some(m => m.parentId === msg.id && m.type === 'assistant' && !m.isError);
+
+                    return (
                     <div key={msg.id} className="flex flex-col animate-fade-in">
                       <div className={`flex flex-col ${msg.type === 'user' ? 'items-end' : 'items-start'}`}>
                         <div className="flex items-center space-x-2 mb-1">
@@ -493,6 +1317,27 @@ function App() {
                                 : 'Your Question' 
                               : "Sharon's Answer"}
                           </span>
+                          {siblings.length > 1 && (
+                            <span className="flex items-center text-xs text-[#757575]">
+                              <button
+                                onClick={() => showBranch(siblings[branchIndex - 1])}
+                                disabled={branchIndex === 0 || isProcessing}
+                                className="hover:text-[#BB86FC] disabled:opacity-30 transition-colors"
+                                title="Previous version"
+                              >
+                                <ChevronLeft className="w-4 h-4" />
+                              </button>
+                              <span>{branchIndex + 1}/{siblings.length}</span>
+                              <button
+                                onClick={() => showBranch(siblings[branchIndex + 1])}
+                                disabled={branchIndex === siblings.length - 1 || isProcessing}
+                                className="hover:text-[#BB86FC] disabled:opacity-30 transition-colors"
+                                title="Next version"
+                              >
+                                <ChevronRight className="w-4 h-4" />
+                              </button>
+                            </span>
+                          )}
                           <button
                             onClick={() => handleCopy(msg.id)}
                             className="text-[#757575] hover:text-[#BB86FC] transition-colors"
@@ -503,27 +1348,152 @@ function App() {
                               <Copy className="w-4 h-4" />
                             )}
                           </button>
+                          {msg.type === 'assistant' && !msg.isError && !msg.cancelled && streamingMessageId !== msg.id && (
+                            <FeedbackControls
+                              messageId={msg.id}
+                              feedback={msg.feedback}
+                              onChange={(feedback) => upsertMessage({ ...msg, feedback })}
+                            />
+                          )}
+                          {msg.type === 'user' && selectedChat && (
+                            <button
+                              onClick={() => {
+                                setEditingMessageId(msg.id);
+                                setEditText(msg.text);
+                              }}
+                              disabled={isProcessing}
+                              className="text-[#757575] hover:text-[#BB86FC] disabled:opacity-30 transition-colors"
+                              title="Edit and resend"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          )}
+                          {isUnanswered && (
+                            <button
+                              onClick={() => handleRequestAnswer(msg)}
+                              disabled={isProcessing}
+                              className="text-[#757575] hover:text-[#BB86FC] disabled:opacity-30 transition-colors"
+                              title="Get answer"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canRegenerate && (
+                            <button
+                              onClick={() => handleRegenerate(msg)}
+                              disabled={isProcessing}
+                              className="text-[#757575] hover:text-[#BB86FC] disabled:opacity-30 transition-colors"
+                              title="Regenerate answer"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                            </button>
+                          )}
+                          {msg.type === 'assistant' && compareWith && (
+                            <button
+                              onClick={() => setComparingId(comparingId === msg.id ? null : msg.id)}
+                              className={`hover:text-[#BB86FC] transition-colors ${
+                                comparingId === msg.id ? 'text-[#BB86FC]' : 'text-[#757575]'
+                              }`}
+                              title="Compare with another version"
+                            >
+                              <GitCompare className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
+                        {editingMessageId === msg.id ? (
+                          <div className="max-w-2xl w-full space-y-2">
+                            <textarea
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              rows={3}
+                              className="w-full bg-[#2C2C2C] text-white px-4 py-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#BB86FC] resize-y"
+                            />
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                onClick={() => setEditingMessageId(null)}
+                                className="px-3 py-1 text-sm text-white hover:text-[#BB86FC] transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={() => handleEditResend(msg)}
+                                disabled={!editText.trim() || isProcessing}
+                                className="px-3 py-1 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+                              >
+                                Save & Send
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
                         <div className={`relative p-4 rounded-2xl shadow-md max-w-2xl w-full ${
                           msg.type === 'user' 
                             ? 'bg-[#BB86FC] text-[#E0E0E0]' 
                             : 'bg-[#2C2C2C] text-[#E0E0E0] prose prose-invert prose-headings:text-[#E0E0E0] prose-a:text-[#BB86FC] prose-a:no-underline hover:prose-a:underline'
-                        }`} data-message-id={msg.id}>
+                        } ${highlightedMessageId === msg.id ? 'ring-2 ring-yellow-400 transition-shadow' : ''}`} data-message-id={msg.id}>
                           {msg.type === 'assistant' 
-                            ? <div 
-                                className="prose prose-invert max-w-none"
-                                dangerouslySetInnerHTML={{ __html: msg.text }}
-                              />
-                            : msg.text
+                            ? msg.cancelled && !msg.text
+                              ? <span className="italic text-[#757575]">Cancelled before Sharon answered</span>
+                              : (
+                                <MarkdownMessage
+                                  text={msg.text}
+                                  sources={msg.sources}
+                                  onOpenSource={(index) => setOpenSources({ sources: msg.sources || [], index })}
+                                />
+                              )
+                            : <span className="whitespace-pre-wrap">{msg.text}</span>
                           }
+                          {streamingMessageId === msg.id && (
+                            <span className="inline-block w-2 h-4 ml-1 bg-[#BB86FC] animate-pulse align-middle" />
+                          )}
                         </div>
+                        )}
+                        {msg.attachments && <AttachmentChips attachments={msg.attachments} />}
+                        {msg.suggestions && msg.suggestions.length > 0 && msg.id === messages[messages.length - 1]?.id && (
+                          <div className="flex flex-wrap gap-2 mt-2 max-w-2xl">
+                            {msg.suggestions.map(suggestion => (
+                              <button
+                                key={suggestion}
+                                onClick={() => setMessage(suggestion)}
+                                disabled={isInputDisabled}
+                                className="px-3 py-1 text-sm text-[#E0E0E0] border border-[#2D2D2D] rounded-full hover:border-[#BB86FC] hover:text-[#BB86FC] disabled:opacity-50 transition-colors"
+                              >
+                                {suggestion}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {comparingId === msg.id && compareWith && (
+                          <AnswerDiff
+                            before={compareWith.text}
+                            after={msg.text}
+                            label={`Changes from version ${siblings.indexOf(compareWith) + 1}/${siblings.length}`}
+                          />
+                        )}
                         <span className="text-[#757575] text-sm mt-1">
                           {msg.timestamp}
+                          {msg.unsaved ? (
+                            <span className="ml-2 text-red-400">· Not saved</span>
+                          ) : msg.cancelled ? (
+                            <span className="ml-2 text-yellow-500">· Cancelled</span>
+                          ) : msg.incomplete && (
+                            <span className="ml-2 text-yellow-500">· Incomplete response</span>
+                          )}
                         </span>
                       </div>
                     </div>
-                  ))}
-                  {isProcessing && (
+                    );
+                  })}
+                  {outbox
+                    .filter(entry => entry.conversationId === selectedChat)
+                    .map(entry => (
+                      <OutboxMessage
+                        key={entry.id}
+                        entry={entry}
+                        onRetry={retryOutboxEntry}
+                        onDiscard={discardOutboxEntry}
+                      />
+                    ))}
+                  {isProcessing && !streamingMessageId && (
                     <div className="flex flex-col items-start animate-fade-in">
                       <span className="text-sm text-[#757575] mb-1">Sharon's working...</span>
                       <div className="bg-[#2C2C2C] p-4 rounded-2xl shadow-md flex items-center space-x-2 animate-pulse">
@@ -534,6 +1504,21 @@ function App() {
                   )}
                 </div>
                 <div className="sticky bottom-0 p-4 bg-[#121212] border-t border-[#2D2D2D] shadow-lg">
+                  <WorkflowVariableInputs
+                    variables={inputVariables}
+                    values={variableValues}
+                    onChange={setVariableValues}
+                    disabled={isInputDisabled}
+                  />
+                  {selectedFiles.length > 0 && (
+                    <ComposerAttachments
+                      files={selectedFiles}
+                      progress={uploadProgress}
+                      onRemove={isProcessing || Object.keys(uploadProgress).length > 0
+                        ? undefined
+                        : (index) => setSelectedFiles(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  )}
                   <form onSubmit={handleSubmit} className="flex space-x-3">
                     {(selectedWorkflow?.supports_documents || selectedWorkflow?.supports_images) && (
                       <div className={`relative ${isInputDisabled ? 'opacity-50 cursor-not-allowed' : ''}`} title={
@@ -544,8 +1529,13 @@ function App() {
                             : 'Upload images (.png, .jpg, .jpeg, .gif)'
                       }>
                         <input
+                          ref={fileInputRef}
                           type="file"
-                          onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+                          multiple
+                          onChange={(e) => {
+                            addFiles(Array.from(e.target.files || []));
+                            e.target.value = '';
+                          }}
                           className="hidden"
                           id="file-upload"
                           accept={`${selectedWorkflow?.supports_documents ? '.pdf,.doc,.docx,.txt' : ''}${
@@ -556,69 +1546,154 @@ function App() {
                         <label
                           htmlFor="file-upload"
                           className={`flex items-center justify-center w-12 h-12 rounded-xl transition-colors ${
-                            selectedFile ? 'bg-emerald-600' : 'bg-[#2C2C2C]'
+                            selectedFiles.length > 0 ? 'bg-emerald-600' : 'bg-[#2C2C2C]'
                           } ${isInputDisabled ? 'cursor-not-allowed' : 'cursor-pointer hover:opacity-90'}`}
                         >
                           <Upload className="w-5 h-5 text-white" />
                         </label>
-                        {selectedFile && (
-                          <div className="absolute bottom-full mb-2 left-0 bg-[#2C2C2C] text-white text-sm rounded-lg p-2 whitespace-nowrap">
-                            {selectedFile.name}
-                            {uploadProgress > 0 && uploadProgress < 100 && (
-                              <div className="w-full h-1 bg-gray-700 rounded-full mt-1">
-                                <div
-                                  className="h-full bg-emerald-600 rounded-full"
-                                  style={{ width: `${uploadProgress}%` }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                        )}
                       </div>
                     )}
-                    <textarea
-                      rows={1}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && !e.shiftKey) {
-                          e.preventDefault();
-                          handleSubmit(e);
-                        }
-                      }}
-                      value={message}
-                      onChange={(e) => {
-                        if (!selectedWorkflow) {
-                          toast.error('Please select a workflow first');
-                          return;
-                        }
-                        // Adjust textarea height
-                        e.target.style.height = 'auto';
-                        e.target.style.height = `${e.target.scrollHeight}px`;
-                        setMessage(e.target.value);
-                      }}
-                      placeholder={selectedWorkflow ? "Type your message..." : "Select a workflow to start chatting"}
-                      className={`flex-1 bg-[#2C2C2C] text-white px-4 py-3 rounded-xl placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#BB86FC] transition-shadow ${
-                        isInputDisabled ? 'opacity-50 cursor-not-allowed' : ''
-                      } resize-none overflow-hidden min-h-[48px] max-h-[200px]`}
+                    <button
+                      type="button"
+                      onClick={() => setIsTemplateLibraryOpen(true)}
                       disabled={isInputDisabled}
-                    ></textarea>
+                      className="flex items-center justify-center w-12 h-12 rounded-xl bg-[#2C2C2C] hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Prompt templates"
+                    >
+                      <BookOpen className="w-5 h-5 text-white" />
+                    </button>
+                    <div className="relative flex-1 flex">
+                      <CommandSuggestions
+                        suggestions={commandSuggestions}
+                        activeIndex={suggestionIndex}
+                        onSelect={(suggestion) => setMessage(suggestion.value)}
+                      />
+                      <textarea
+                        rows={1}
+                        onPaste={(e) => {
+                          const files = Array.from(e.clipboardData.files);
+                          if (files.length === 0) return;
+                          e.preventDefault();
+                          addFiles(files);
+                        }}
+                        onKeyDown={(e) => {
+                          const suggestion = commandSuggestions[suggestionIndex];
+                          if (suggestion && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+                            e.preventDefault();
+                            const step = e.key === 'ArrowDown' ? 1 : -1;
+                            setSuggestionIndex((suggestionIndex + step + commandSuggestions.length) % commandSuggestions.length);
+                            return;
+                          }
+                          // Complete the highlighted suggestion before running anything
+                          if (suggestion && (e.key === 'Tab' || (e.key === 'Enter' && !parseSlashCommand(message)))) {
+                            e.preventDefault();
+                            setMessage(suggestion.value);
+                            return;
+                          }
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSubmit(e);
+                          }
+                        }}
+                        value={message}
+                        onChange={(e) => {
+                          if (!selectedWorkflow) {
+                            toast.error('Please select a workflow first');
+                            return;
+                          }
+                          // Adjust textarea height
+                          e.target.style.height = 'auto';
+                          e.target.style.height = `${e.target.scrollHeight}px`;
+                          setMessage(e.target.value);
+                        }}
+                        placeholder={selectedWorkflow ? "Type your message..." : "Select a workflow to start chatting"}
+                        className={`flex-1 bg-[#2C2C2C] text-white px-4 py-3 rounded-xl placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#BB86FC] transition-shadow ${
+                          isInputDisabled ? 'opacity-50 cursor-not-allowed' : ''
+                        } resize-none overflow-hidden min-h-[48px] max-h-[200px]`}
+                        disabled={isInputDisabled}
+                      ></textarea>
+                    </div>
+                    {isProcessing ? (
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        className="bg-red-500 text-white p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 focus:ring-offset-[#121212] hover:bg-red-600 transition-all"
+                        title="Stop generating"
+                      >
+                        <Square className="w-5 h-5" />
+                      </button>
+                    ) : (
                     <button
                       type="submit"
                       className={`bg-[#BB86FC] text-white p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#BB86FC] focus:ring-offset-2 focus:ring-offset-[#121212] transition-all ${
-                        isInputDisabled || (!message.trim() && !selectedFile)
+                        isInputDisabled || (!message.trim() && selectedFiles.length === 0)
                           ? 'opacity-50 cursor-not-allowed'
                           : 'hover:bg-opacity-90'
                       }`}
-                      disabled={isInputDisabled || (!message.trim() && !selectedFile)}
+                      disabled={isInputDisabled || (!message.trim() && selectedFiles.length === 0)}
                     >
                       <Send className="w-5 h-5" />
                     </button>
+                    )}
                   </form>
                 </div>
               </div>
             </div>
           }
-        />
+        >
+          {/* These only carry URL params; the chat reads them with useMatch */}
+          <Route path="chat/:conversationId" element={null} />
+          <Route path="w/:workflowId/new" element={null} />
+        </Route>
       </Routes>
+      <CommandPalette
+        workflows={workflows}
+        onSelectWorkflow={startNewChat}
+        onSelectConversation={(conversation) => handleOpenMessage(conversation.id, null)}
+      />
+      {isTemplateLibraryOpen && selectedWorkflow && (
+        <TemplateLibrary
+          workflow={selectedWorkflow}
+          workflows={workflows}
+          onUse={applyTemplate}
+          onClose={() => setIsTemplateLibraryOpen(false)}
+        />
+      )}
+      {fillingTemplate && (
+        <TemplateFillForm
+          template={fillingTemplate}
+          onInsert={(text) => {
+            setMessage(text);
+            setFillingTemplate(null);
+          }}
+          onClose={() => setFillingTemplate(null)}
+        />
+      )}
+      {openSources && (
+        <SourcePanel
+          sources={openSources.sources}
+          activeIndex={openSources.index}
+          onClose={() => setOpenSources(null)}
+        />
+      )}
+      {isCompareOpen && (
+        <WorkflowCompare
+          workflows={workflows}
+          initialWorkflowId={selectedWorkflow?.id ?? null}
+          userId={user.id}
+          onKeep={(conversationId) => {
+            setIsCompareOpen(false);
+            navigate(`/chat/${conversationId}`);
+          }}
+          onClose={() => setIsCompareOpen(false)}
+        />
+      )}
+      {isShareDialogOpen && selectedChat && (
+        <ShareDialog
+          conversationId={selectedChat}
+          onClose={() => setIsShareDialogOpen(false)}
+        />
+      )}
     </Layout>
   );
 }
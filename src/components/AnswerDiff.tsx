@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { diffText } from '../lib/diff';
+
+interface AnswerDiffProps {
+  before: string;
+  after: string;
+  label: string;
+}
+
+export function AnswerDiff({ before, after, label }: AnswerDiffProps) {
+  const parts = useMemo(() => diffText(before, after), [before, after]);
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-[#1F1F1F] border border-[#2D2D2D] max-w-2xl w-full">
+      <div className="text-xs text-[#757575] mb-2">{label}</div>
+      <div className="text-sm text-[#E0E0E0] whitespace-pre-wrap font-mono">
+        {parts.map((part, index) => (
+          <span
+            key={index}
+            className={
+              part.type === 'added'
+                ? 'bg-emerald-500/20 text-emerald-300'
+                : part.type === 'removed'
+                  ? 'bg-red-500/20 text-red-300 line-through'
+                  : ''
+            }
+          >
+            {part.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { FileText } from 'lucide-react';
+import { getAttachmentUrl, isImageFile } from '../lib/attachments';
+import type { Attachment } from '../lib/types';
+
+interface AttachmentChipsProps {
+  attachments: Attachment[];
+}
+
+function formatSize(size: number | null) {
+  if (size === null) return '';
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function AttachmentChips({ attachments }: AttachmentChipsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2 max-w-2xl justify-end">
+      {attachments.map((attachment) => {
+        const url = getAttachmentUrl(attachment);
+        const isImage = isImageFile({ name: attachment.file_name, type: attachment.mime_type || '' });
+
+        return (
+          <a
+            key={attachment.id}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-2 bg-[#2C2C2C] border border-[#2D2D2D] rounded-lg p-2 hover:border-[#BB86FC] transition-colors"
+            title={attachment.file_name}
+          >
+            {isImage ? (
+              <img
+                src={url}
+                alt={attachment.file_name}
+                className="w-10 h-10 rounded object-cover"
+              />
+            ) : (
+              <FileText className="w-5 h-5 text-[#BB86FC]" />
+            )}
+            <div className="text-left">
+              <p className="text-sm text-[#E0E0E0] max-w-[10rem] truncate">{attachment.file_name}</p>
+              {attachment.size !== null && (
+                <p className="text-xs text-[#757575]">{formatSize(attachment.size)}</p>
+              )}
+            </div>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
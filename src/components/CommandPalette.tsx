@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Workflow as WorkflowIcon, MessageSquare, LayoutDashboard } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { WorkflowConfig } from '../lib/types';
+
+interface PaletteConversation {
+  id: string;
+  title: string;
+}
+
+interface PaletteItem {
+  id: string;
+  group: 'Workflows' | 'Conversations' | 'Pages';
+  label: string;
+  run: () => void;
+}
+
+const PAGES = [
+  { path: '/', label: 'Chat', adminOnly: false },
+  { path: '/profile', label: 'Profile Settings', adminOnly: false },
+  { path: '/workflows', label: 'Workflows', adminOnly: true },
+  { path: '/users', label: 'Users', adminOnly: true },
+  { path: '/permissions', label: 'Permissions', adminOnly: true },
+];
+
+const GROUP_ICONS = {
+  Workflows: WorkflowIcon,
+  Conversations: MessageSquare,
+  Pages: LayoutDashboard,
+};
+
+interface CommandPaletteProps {
+  workflows: WorkflowConfig[];
+  onSelectWorkflow: (workflow: WorkflowConfig) => void;
+  onSelectConversation: (conversation: PaletteConversation) => void;
+}
+
+/** Global Ctrl/Cmd+K switcher for workflows, recent conversations and pages. */
+export function CommandPalette({ workflows, onSelectWorkflow, onSelectConversation }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [conversations, setConversations] = useState<PaletteConversation[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+
+    const loadRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      setIsAdmin(data?.role === 'admin');
+    };
+
+    loadRole();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const timeout = setTimeout(async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const request = supabase
+        .from('conversations')
+        .select('id, title')
+        .eq('created_by', user.id)
+        .order('created_at', { ascending: false })
+        .limit(query.trim() ? 20 : 8);
+
+      if (query.trim()) {
+        request.ilike('title', `%${query.trim()}%`);
+      }
+
+      const { data, error } = await request;
+      if (error) {
+        console.error('Error loading conversations for palette:', error);
+        return;
+      }
+      setConversations(data || []);
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [isOpen, query]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const needle = query.trim().toLowerCase();
+    const matches = (label: string) => label.toLowerCase().includes(needle);
+
+    return [
+      ...workflows.filter(w => matches(w.name)).map(workflow => ({
+        id: `workflow-${workflow.id}`,
+        group: 'Workflows' as const,
+        label: workflow.name,
+        run: () => onSelectWorkflow(workflow)
+      })),
+      ...conversations.map(conversation => ({
+        id: `conversation-${conversation.id}`,
+        group: 'Conversations' as const,
+        label: conversation.title,
+        run: () => onSelectConversation(conversation)
+      })),
+      ...PAGES.filter(page => (!page.adminOnly || isAdmin) && matches(page.label)).map(page => ({
+        id: `page-${page.path}`,
+        group: 'Pages' as const,
+        label: page.label,
+        run: () => navigate(page.path)
+      })),
+    ];
+  }, [query, workflows, conversations, isAdmin]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items.length]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteItem) => {
+    setIsOpen(false);
+    item.run();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-24 px-4 z-50"
+      onClick={() => setIsOpen(false)}
+    >
+      <div
+        className="bg-[#1F1F1F] rounded-lg shadow-xl w-full max-w-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 border-b border-[#2D2D2D]">
+          <Search className="w-5 h-5 text-[#757575]" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowDown') {
+                e.preventDefault();
+                setActiveIndex(i => Math.min(i + 1, items.length - 1));
+              } else if (e.key === 'ArrowUp') {
+                e.preventDefault();
+                setActiveIndex(i => Math.max(i - 1, 0));
+              } else if (e.key === 'Enter' && items[activeIndex]) {
+                e.preventDefault();
+                runItem(items[activeIndex]);
+              } else if (e.key === 'Escape') {
+                setIsOpen(false);
+              }
+            }}
+            placeholder="Jump to a workflow, conversation or page..."
+            className="flex-1 bg-transparent text-white px-3 py-4 placeholder-gray-400 focus:outline-none"
+          />
+          <kbd className="text-xs text-[#757575] border border-[#2D2D2D] rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto py-2">
+          {items.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-[#757575]">No results</p>
+          )}
+          {items.map((item, index) => {
+            const Icon = GROUP_ICONS[item.group];
+            const showHeading = index === 0 || items[index - 1].group !== item.group;
+
+            return (
+              <div key={item.id}>
+                {showHeading && (
+                  <p className="px-4 pt-2 pb-1 text-xs uppercase tracking-wide text-[#757575]">{item.group}</p>
+                )}
+                <button
+                  onClick={() => runItem(item)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`w-full px-4 py-2 text-left flex items-center space-x-3 ${
+                    index === activeIndex ? 'bg-[#2C2C2C]' : ''
+                  }`}
+                >
+                  <Icon className="w-4 h-4 text-[#BB86FC] flex-shrink-0" />
+                  <span className="text-sm text-[#E0E0E0] truncate">{item.label}</span>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { CommandSuggestion } from '../lib/commands';
+
+interface CommandSuggestionsProps {
+  suggestions: CommandSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: CommandSuggestion) => void;
+}
+
+export function CommandSuggestions({ suggestions, activeIndex, onSelect }: CommandSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-[#1F1F1F] border border-[#2D2D2D] rounded-lg shadow-lg py-1 z-20">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.value}
+          type="button"
+          // Keep focus in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`w-full px-4 py-2 text-left flex items-center justify-between ${
+            index === activeIndex ? 'bg-[#2C2C2C]' : 'hover:bg-[#2C2C2C]'
+          }`}
+        >
+          <span className="text-sm text-[#E0E0E0] font-mono">{suggestion.label}</span>
+          <span className="text-xs text-[#757575]">{suggestion.description}</span>
+        </button>
+      ))}
+      <p className="px-4 pt-1 text-xs text-[#757575] border-t border-[#2D2D2D]">
+        Tab to complete, Enter to run
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { isImageFile } from '../lib/attachments';
+
+interface ComposerAttachmentsProps {
+  files: File[];
+  progress: Record<number, number>;
+  onRemove?: (index: number) => void;
+}
+
+function Thumbnail({ file }: { file: File }) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isImageFile(file)) return;
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return previewUrl ? (
+    <img src={previewUrl} alt={file.name} className="w-10 h-10 rounded object-cover" />
+  ) : (
+    <div className="w-10 h-10 rounded bg-[#1F1F1F] flex items-center justify-center">
+      <FileText className="w-5 h-5 text-[#BB86FC]" />
+    </div>
+  );
+}
+
+export function ComposerAttachments({ files, progress, onRemove }: ComposerAttachmentsProps) {
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      {files.map((file, index) => (
+        <div
+          key={`${file.name}-${file.lastModified}-${index}`}
+          className="flex items-center space-x-2 bg-[#2C2C2C] rounded-lg p-2 text-sm text-white"
+        >
+          <Thumbnail file={file} />
+          <div className="min-w-[6rem]">
+            <p className="max-w-[10rem] truncate">{file.name}</p>
+            {progress[index] > 0 && (
+              <div className="w-full h-1 bg-gray-700 rounded-full mt-1">
+                <div
+                  className="h-full bg-emerald-600 rounded-full transition-all"
+                  style={{ width: `${progress[index]}%` }}
+                />
+              </div>
+            )}
+          </div>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              className="text-[#757575] hover:text-red-400 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
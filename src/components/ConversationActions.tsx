@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { MoreHorizontal, Pencil, Pin, PinOff, Folder, Check } from 'lucide-react';
+import { updateConversation, toggleConversationTag } from '../lib/conversations';
+import { TAG_COLORS } from '../lib/types';
+import type { ConversationFolder, ConversationTag } from '../lib/types';
+import toast from 'react-hot-toast';
+
+interface ConversationActionsProps {
+  conversation: {
+    id: string;
+    pinned: boolean;
+    folder_id: string | null;
+    tagIds: string[];
+  };
+  folders: ConversationFolder[];
+  tags: ConversationTag[];
+  onRename: () => void;
+  onChange: () => void;
+}
+
+export function ConversationActions({ conversation, folders, tags, onRename, onChange }: ConversationActionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error(failure, error);
+      toast.error(failure);
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-white"
+        title="Organize"
+      >
+        <MoreHorizontal className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full mt-1 w-52 bg-gray-800 border border-gray-700 rounded-md shadow-lg py-1 z-20"
+          onMouseLeave={() => setIsOpen(false)}
+        >
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onRename();
+            }}
+            className="w-full px-3 py-2 text-left text-sm text-white flex items-center hover:bg-gray-700"
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </button>
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              run(() => updateConversation(conversation.id, { pinned: !conversation.pinned }), 'Failed to update pin');
+            }}
+            className="w-full px-3 py-2 text-left text-sm text-white flex items-center hover:bg-gray-700"
+          >
+            {conversation.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+            {conversation.pinned ? 'Unpin' : 'Pin to top'}
+          </button>
+
+          <div className="border-t border-gray-700 my-1" />
+          <p className="px-3 py-1 text-xs text-gray-400">Move to folder</p>
+          {[{ id: null, name: 'No folder' }, ...folders].map(folder => (
+            <button
+              key={folder.id ?? 'none'}
+              onClick={() => run(
+                () => updateConversation(conversation.id, { folder_id: folder.id }),
+                'Failed to move conversation'
+              )}
+              className="w-full px-3 py-1.5 text-left text-sm text-white flex items-center justify-between hover:bg-gray-700"
+            >
+              <span className="flex items-center">
+                <Folder className="h-4 w-4 mr-2 text-gray-400" />
+                {folder.name}
+              </span>
+              {conversation.folder_id === folder.id && <Check className="h-4 w-4 text-emerald-500" />}
+            </button>
+          ))}
+
+          {tags.length > 0 && (
+            <>
+              <div className="border-t border-gray-700 my-1" />
+              <p className="px-3 py-1 text-xs text-gray-400">Tags</p>
+              {tags.map(tag => {
+                const assigned = conversation.tagIds.includes(tag.id);
+                return (
+                  <button
+                    key={tag.id}
+                    onClick={() => run(
+                      () => toggleConversationTag(conversation.id, tag.id, !assigned),
+                      'Failed to update tags'
+                    )}
+                    className="w-full px-3 py-1.5 text-left text-sm flex items-center justify-between hover:bg-gray-700"
+                  >
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${TAG_COLORS[tag.color]}`}>{tag.name}</span>
+                    {assigned && <Check className="h-4 w-4 text-emerald-500" />}
+                  </button>
+                );
+              })}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { FolderPlus, Plus, X } from 'lucide-react';
+import { createFolder, deleteFolder, createTag, deleteTag } from '../lib/conversations';
+import { TAG_COLORS } from '../lib/types';
+import type { ConversationFolder, ConversationTag, TagColor } from '../lib/types';
+import toast from 'react-hot-toast';
+
+interface ConversationFiltersProps {
+  folders: ConversationFolder[];
+  tags: ConversationTag[];
+  selectedFolderId: string | null;
+  selectedTagId: string | null;
+  onSelectFolder: (id: string | null) => void;
+  onSelectTag: (id: string | null) => void;
+  onChange: () => void;
+}
+
+export function ConversationFilters({
+  folders,
+  tags,
+  selectedFolderId,
+  selectedTagId,
+  onSelectFolder,
+  onSelectTag,
+  onChange
+}: ConversationFiltersProps) {
+  const [creating, setCreating] = useState<'folder' | 'tag' | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<TagColor>('purple');
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    try {
+      if (creating === 'folder') {
+        const folder = await createFolder(trimmed);
+        onSelectFolder(folder.id);
+      } else {
+        await createTag(trimmed, color);
+      }
+      setCreating(null);
+      setName('');
+      onChange();
+    } catch (error) {
+      console.error(`Error creating ${creating}:`, error);
+      toast.error(`Failed to create ${creating}`);
+    }
+  };
+
+  const handleDelete = async (kind: 'folder' | 'tag', id: string) => {
+    const message = kind === 'folder'
+      ? 'Delete this folder? Its conversations will move back to the main list.'
+      : 'Delete this tag? It will be removed from all conversations.';
+    if (!confirm(message)) return;
+
+    try {
+      if (kind === 'folder') {
+        await deleteFolder(id);
+        if (selectedFolderId === id) onSelectFolder(null);
+      } else {
+        await deleteTag(id);
+        if (selectedTagId === id) onSelectTag(null);
+      }
+      onChange();
+    } catch (error) {
+      console.error(`Error deleting ${kind}:`, error);
+      toast.error(`Failed to delete ${kind}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <select
+          value={selectedFolderId ?? ''}
+          onChange={(e) => onSelectFolder(e.target.value || null)}
+          className="flex-1 bg-gray-800 text-white text-sm px-3 py-1.5 rounded-md focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        >
+          <option value="">All folders</option>
+          {folders.map(folder => (
+            <option key={folder.id} value={folder.id}>{folder.name}</option>
+          ))}
+        </select>
+        {selectedFolderId && (
+          <button
+            onClick={() => handleDelete('folder', selectedFolderId)}
+            className="text-gray-400 hover:text-red-400"
+            title="Delete folder"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setCreating(creating === 'folder' ? null : 'folder')}
+          className="text-gray-400 hover:text-white"
+          title="New folder"
+        >
+          <FolderPlus className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {tags.map(tag => (
+          <span
+            key={tag.id}
+            className={`group/tag flex items-center px-2 py-0.5 rounded-full text-xs cursor-pointer ${TAG_COLORS[tag.color]} ${
+              selectedTagId === tag.id ? 'ring-1 ring-white' : ''
+            }`}
+            onClick={() => onSelectTag(selectedTagId === tag.id ? null : tag.id)}
+          >
+            {tag.name}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete('tag', tag.id);
+              }}
+              className="hidden group-hover/tag:inline ml-1 hover:text-white"
+              title="Delete tag"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <button
+          onClick={() => setCreating(creating === 'tag' ? null : 'tag')}
+          className="flex items-center px-2 py-0.5 rounded-full text-xs text-gray-400 border border-dashed border-gray-600 hover:text-white"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Tag
+        </button>
+      </div>
+
+      {creating && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setCreating(null);
+            }}
+            placeholder={creating === 'folder' ? 'Folder name' : 'Tag name'}
+            className="flex-1 bg-gray-800 text-white text-sm px-3 py-1.5 rounded-md placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          {creating === 'tag' && (
+            <select
+              value={color}
+              onChange={(e) => setColor(e.target.value as TagColor)}
+              className="bg-gray-800 text-white text-sm px-2 py-1.5 rounded-md focus:outline-none"
+            >
+              {Object.keys(TAG_COLORS).map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={handleCreate}
+            className="text-sm text-emerald-500 hover:text-emerald-400"
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
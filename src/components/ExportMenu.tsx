@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { exportConversation } from '../lib/export';
+import type { ExportFormat } from '../lib/export';
+import type { BranchSelections } from '../lib/branches';
+import toast from 'react-hot-toast';
+
+const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  json: 'JSON (.json)',
+  pdf: 'PDF (print)',
+};
+
+interface ExportMenuProps {
+  conversationId: string;
+  selections?: BranchSelections;
+  className?: string;
+}
+
+export function ExportMenu({ conversationId, selections, className = '' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      setExporting(true);
+      await exportConversation(conversationId, format, selections);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export conversation');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={exporting}
+        className={`text-gray-400 hover:text-[#BB86FC] transition-colors ${className}`}
+        title="Export conversation"
+      >
+        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-40 bg-[#1F1F1F] border border-[#2D2D2D] rounded-md shadow-lg z-20">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-2 text-sm text-white hover:bg-[#2C2C2C]"
+            >
+              {EXPORT_FORMATS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
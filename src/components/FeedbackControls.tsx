@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { FEEDBACK_REASONS } from '../lib/types';
+import type { FeedbackReason, MessageFeedback } from '../lib/types';
+import toast from 'react-hot-toast';
+
+interface FeedbackControlsProps {
+  messageId: string;
+  feedback?: MessageFeedback | null;
+  onChange: (feedback: MessageFeedback) => void;
+}
+
+export function FeedbackControls({ messageId, feedback, onChange }: FeedbackControlsProps) {
+  const [formRating, setFormRating] = useState<1 | -1 | null>(null);
+  const [reason, setReason] = useState<FeedbackReason>('incorrect');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const saveFeedback = async (next: MessageFeedback) => {
+    try {
+      setSaving(true);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('message_feedback')
+        .upsert({
+          message_id: messageId,
+          user_id: user.id,
+          rating: next.rating,
+          reason: next.reason,
+          comment: next.comment
+        }, { onConflict: 'message_id,user_id' });
+
+      if (error) throw error;
+
+      onChange(next);
+      setFormRating(null);
+      setComment('');
+      toast.success('Thanks for your feedback');
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+      toast.error('Failed to save feedback');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openForm = (rating: 1 | -1) => {
+    setFormRating(formRating === rating ? null : rating);
+    setReason(rating === 1 ? 'helpful' : 'incorrect');
+    setComment(feedback?.rating === rating ? feedback.comment || '' : '');
+  };
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      <button
+        onClick={() => openForm(1)}
+        disabled={saving}
+        className={`transition-colors hover:text-emerald-400 ${
+          feedback?.rating === 1 ? 'text-emerald-400' : 'text-[#757575]'
+        }`}
+        title="Good answer"
+      >
+        <ThumbsUp className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => openForm(-1)}
+        disabled={saving}
+        className={`transition-colors hover:text-red-400 ${
+          feedback?.rating === -1 ? 'text-red-400' : 'text-[#757575]'
+        }`}
+        title="Bad answer"
+      >
+        <ThumbsDown className="w-4 h-4" />
+      </button>
+
+      {formRating !== null && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-[#1F1F1F] border border-[#2D2D2D] rounded-lg shadow-lg p-3 space-y-3 z-10">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as FeedbackReason)}
+            className="w-full px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          >
+            {Object.entries(FEEDBACK_REASONS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            placeholder="Tell us more (optional)"
+            className="w-full px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setFormRating(null)}
+              className="px-3 py-1 text-sm text-white hover:text-[#BB86FC] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => saveFeedback({ rating: formRating, reason, comment: comment.trim() || null })}
+              disabled={saving}
+              className="px-3 py-1 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+            >
+              Submit
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo, useState, isValidElement, ReactNode } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { Copy, Check } from 'lucide-react';
+import 'highlight.js/styles/github-dark.css';
+import { getCitationIndex } from '../lib/sources';
+import type { MessageSource } from '../lib/types';
+
+interface MarkdownMessageProps {
+  text: string;
+  sources?: MessageSource[];
+  // Opens the source behind a citation; without it citations stay plain text
+  onOpenSource?: (index: number) => void;
+}
+
+// Worker output may contain raw HTML (and older messages were stored as HTML),
+// so everything is parsed and then passed through the sanitizer. Only the
+// citation markers need anything beyond the default GitHub-style allow list.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    sup: [...(defaultSchema.attributes?.sup || []), ['className', 'citation']],
+  },
+};
+
+function getNodeText(node: ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(getNodeText).join('');
+  if (isValidElement<{ children?: ReactNode }>(node)) return getNodeText(node.props.children);
+  return '';
+}
+
+function CodeBlock({ children }: { children?: ReactNode }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getNodeText(children).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy code:', err);
+    }
+  };
+
+  return (
+    <div className="relative group not-prose my-4">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1 rounded bg-[#2C2C2C] text-[#757575] hover:text-[#BB86FC] opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Copy code"
+      >
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+      </button>
+      <pre className="overflow-x-auto rounded-lg bg-[#0D1117] p-4 text-sm">{children}</pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-[#BB86FC] hover:text-[#9B66DC] underline"
+    >
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+export function MarkdownMessage({ text, sources = [], onOpenSource }: MarkdownMessageProps) {
+  const markdownComponents = useMemo<Components>(() => {
+    if (!onOpenSource || sources.length === 0) return components;
+
+    return {
+      ...components,
+      sup: ({ className, children }) => {
+        const label = getNodeText(children);
+        const index = className?.split(' ').includes('citation') ? getCitationIndex(label) : null;
+        if (index === null || !sources[index]) {
+          return <sup className={className}>{children}</sup>;
+        }
+
+        return (
+          <sup className="citation">
+            <button
+              type="button"
+              onClick={() => onOpenSource(index)}
+              className="text-[#BB86FC] hover:text-[#9B66DC] hover:underline"
+              title={sources[index].title}
+            >
+              {label}
+            </button>
+          </sup>
+        );
+      },
+    };
+  }, [sources, onOpenSource]);
+
+  return (
+    <div className="prose prose-invert max-w-none prose-blockquote:border-[#BB86FC] prose-th:text-[#E0E0E0]">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeRaw, [rehypeSanitize, sanitizeSchema], rehypeHighlight]}
+        components={markdownComponents}
+      >
+        {text}
+      </ReactMarkdown>
+      {onOpenSource && sources.length > 0 && (
+        <div className="not-prose flex flex-wrap gap-2 mt-3 pt-3 border-t border-[#2D2D2D]">
+          {sources.map((source, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onOpenSource(index)}
+              className="max-w-[14rem] truncate px-2 py-1 text-xs rounded bg-[#1F1F1F] text-[#E0E0E0] hover:text-[#BB86FC] transition-colors"
+              title={source.title}
+            >
+              [{index + 1}] {source.title}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
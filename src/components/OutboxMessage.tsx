@@ -0,0 +1,66 @@
+import { Clock, Loader2, AlertCircle, RefreshCw, X } from 'lucide-react';
+import { AttachmentChips } from './AttachmentChips';
+import type { OutboxEntry } from '../lib/outbox';
+
+interface OutboxMessageProps {
+  entry: OutboxEntry;
+  onRetry: (entry: OutboxEntry) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+}
+
+export function OutboxMessage({ entry, onRetry, onDiscard }: OutboxMessageProps) {
+  return (
+    <div className="flex flex-col items-end animate-fade-in">
+      <span className="text-sm text-[#757575] mb-1">
+        {entry.parentId ? 'Your Follow-up' : 'Your Question'}
+      </span>
+      <div className="p-4 rounded-2xl shadow-md max-w-2xl w-full bg-[#BB86FC]/50 text-[#E0E0E0]">
+        <span className="whitespace-pre-wrap">{entry.text}</span>
+      </div>
+      <AttachmentChips attachments={entry.attachments} />
+      {entry.files.length > 0 && (
+        <span className="text-xs text-[#757575] mt-1">
+          {entry.files.length === 1 ? '1 file' : `${entry.files.length} files`} waiting to upload
+        </span>
+      )}
+      <span className="flex items-center space-x-2 text-sm mt-1">
+        {entry.status === 'sending' && (
+          <span className="flex items-center text-[#757575]">
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            Sending...
+          </span>
+        )}
+        {entry.status === 'queued' && (
+          <span className="flex items-center text-yellow-500" title={entry.error ?? undefined}>
+            <Clock className="w-4 h-4 mr-1" />
+            {navigator.onLine ? 'Queued, retrying shortly' : 'Queued until you are back online'}
+          </span>
+        )}
+        {entry.status === 'failed' && (
+          <span className="flex items-center text-red-400" title={entry.error ?? undefined}>
+            <AlertCircle className="w-4 h-4 mr-1" />
+            Failed to send
+          </span>
+        )}
+        {entry.status !== 'sending' && (
+          <>
+            <button
+              onClick={() => onRetry(entry)}
+              className="flex items-center text-[#757575] hover:text-[#BB86FC] transition-colors"
+              title="Retry now"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDiscard(entry)}
+              className="text-[#757575] hover:text-red-400 transition-colors"
+              title="Discard message"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
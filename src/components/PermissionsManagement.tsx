@@ -11,7 +11,7 @@ interface UserWorkflowPermission {
 
 export function PermissionsManagement() {
   const [users, setUsers] = useState<Profile[]>([]);
-  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [workflows, setWorkflows] = useState<Pick<Workflow, 'id' | 'name' | 'description'>[]>([]);
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
   const [permissions, setPermissions] = useState<UserWorkflowPermission[]>([]);
   const [loading, setLoading] = useState(true);
@@ -42,7 +42,7 @@ export function PermissionsManagement() {
       // Fetch workflows
       const { data: workflows, error: workflowsError } = await supabase
         .from('workflows')
-        .select('*')
+        .select('id, name, description')
         .eq('status', 'active')
         .order('name');
 
@@ -8,7 +8,6 @@ import { Profile } from '../lib/types';
 import { Loader2 } from 'lucide-react';
 
 const profileSchema = z.object({
-  company_name: z.string().min(1, 'Company name is required'),
   email: z.string().email('Invalid email format').min(1, 'Email is required'),
   current_password: z.string().optional(),
   new_password: z.string()
@@ -73,7 +72,6 @@ export function ProfileSettings() {
       setProfile(data);
       reset({
         email: data.email,
-        company_name: data.company_name || '',
       });
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -89,11 +87,10 @@ export function ProfileSettings() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      // Update profile data
+      // Update profile data; the company is assigned by admins
       const { error: profileError } = await supabase
         .from('profiles')
         .update({
-          company_name: data.company_name,
           updated_at: new Date().toISOString(),
         })
         .eq('id', user.id);
@@ -154,13 +151,15 @@ export function ProfileSettings() {
                 Company Name
               </label>
               <input
-                {...register('company_name')}
+                value={profile?.company_name || ''}
                 type="text"
-                className="w-full px-4 py-2 bg-[#2C2C2C] text-[#E0E0E0] rounded-lg border border-[#3D3D3D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                readOnly
+                placeholder="Not assigned"
+                className="w-full px-4 py-2 bg-[#2C2C2C] text-[#E0E0E0] rounded-lg border border-[#3D3D3D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC] opacity-50 cursor-not-allowed"
               />
-              {errors.company_name && (
-                <p className="mt-1 text-sm text-red-500">{errors.company_name.message}</p>
-              )}
+              <p className="mt-1 text-xs text-[#757575]">
+                Your company is set by an administrator
+              </p>
             </div>
 
             <div className="pt-4 border-t border-[#3D3D3D]">
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import {
+  renderBodyTemplate,
+  renderHeadersTemplate,
+  validateRequestTemplate,
+  BUILT_IN_PLACEHOLDERS
+} from '../lib/request-template';
+
+interface RequestTemplateEditorProps {
+  bodyTemplate: string;
+  headersTemplate: string;
+  onChange: (changes: { body_template?: string; headers_template?: string }) => void;
+  // The provider's body with placeholders in it, offered as a starting point
+  defaultBodyTemplate: string;
+  variableNames: string[];
+  sampleValues: Record<string, unknown>;
+}
+
+/**
+ * Edits a workflow's body and header templates and renders them with sample
+ * values, so the request a worker will receive can be checked before saving.
+ */
+export function RequestTemplateEditor({
+  bodyTemplate,
+  headersTemplate,
+  onChange,
+  defaultBodyTemplate,
+  variableNames,
+  sampleValues
+}: RequestTemplateEditorProps) {
+  const bodyError = bodyTemplate.trim() ? validateRequestTemplate(bodyTemplate, 'body', variableNames) : null;
+  const headersError = headersTemplate.trim() ? validateRequestTemplate(headersTemplate, 'headers', variableNames) : null;
+
+  const preview = useMemo(() => {
+    try {
+      return JSON.stringify({
+        ...(headersTemplate.trim() && { headers: renderHeadersTemplate(headersTemplate, sampleValues) }),
+        ...(bodyTemplate.trim() && { body: renderBodyTemplate(bodyTemplate, sampleValues) })
+      }, null, 2);
+    } catch {
+      return null;
+    }
+  }, [bodyTemplate, headersTemplate, sampleValues]);
+
+  const placeholders = [...BUILT_IN_PLACEHOLDERS, ...variableNames.filter(name => !BUILT_IN_PLACEHOLDERS.includes(name))];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-white">
+            Body Template
+          </label>
+          <button
+            type="button"
+            onClick={() => onChange({ body_template: defaultBodyTemplate })}
+            className="text-sm text-[#BB86FC] hover:text-[#9B66DC]"
+          >
+            Start from provider default
+          </button>
+        </div>
+        <textarea
+          rows={8}
+          value={bodyTemplate}
+          onChange={(e) => onChange({ body_template: e.target.value })}
+          className="w-full px-4 py-2 bg-[#1A1B1E] text-white font-mono text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          placeholder="Leave empty to send the provider's default body"
+        />
+        {bodyError && <p className="mt-1 text-sm text-red-500">{bodyError}</p>}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white mb-2">
+          Headers Template
+        </label>
+        <textarea
+          rows={3}
+          value={headersTemplate}
+          onChange={(e) => onChange({ headers_template: e.target.value })}
+          className="w-full px-4 py-2 bg-[#1A1B1E] text-white font-mono text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          placeholder={'{ "X-User": "{{user.email}}" }'}
+        />
+        {headersError && <p className="mt-1 text-sm text-red-500">{headersError}</p>}
+        <p className="mt-1 text-sm text-[#757575]">
+          Added to the provider's headers, replacing any with the same name.
+        </p>
+      </div>
+
+      <p className="text-sm text-[#757575]">
+        Placeholders: {placeholders.map(name => <code key={name} className="mr-2">{`{{${name}}}`}</code>)}
+        <br />
+        A value that is only a placeholder keeps its type, so <code>"{'{{stream}}'}"</code> sends a boolean
+        and unset values send null.
+      </p>
+
+      {preview && !bodyError && !headersError && (bodyTemplate.trim() || headersTemplate.trim()) && (
+        <div>
+          <label className="block text-sm font-medium text-white mb-2">
+            Rendered Preview
+          </label>
+          <pre className="w-full p-4 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] font-mono text-sm whitespace-pre-wrap">
+            {preview}
+          </pre>
+          <p className="mt-1 text-sm text-[#757575]">Rendered with sample values and your variables' defaults.</p>
+        </div>
+      )}
+    </div>
+  );
+}
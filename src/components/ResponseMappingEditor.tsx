@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { applyResponseMapping, validatePath, RESPONSE_MAPPING_FIELDS } from '../lib/response-mapping';
+import type { ProviderAdapter } from '../lib/api';
+import type { ResponseMapping } from '../lib/types';
+
+interface ResponseMappingEditorProps {
+  mapping: ResponseMapping;
+  onChange: (mapping: ResponseMapping) => void;
+  sampleResponse: string;
+  onSampleResponseChange: (sample: string) => void;
+  adapter: ProviderAdapter;
+}
+
+/**
+ * Edits the rules that pick the answer and extra fields out of a worker reply,
+ * and previews them against a sample reply (filled in by "Test API").
+ */
+export function ResponseMappingEditor({
+  mapping,
+  onChange,
+  sampleResponse,
+  onSampleResponseChange,
+  adapter
+}: ResponseMappingEditorProps) {
+  const preview = useMemo(() => {
+    if (!sampleResponse.trim()) return null;
+
+    try {
+      const data = JSON.parse(sampleResponse);
+      const { text, ...fields } = applyResponseMapping(data, mapping);
+      const defaultText = text === undefined ? adapter.extractText(data) : undefined;
+      return {
+        error: null,
+        result: { text: text ?? defaultText, ...fields },
+        usesDefaultText: text === undefined && defaultText !== undefined
+      };
+    } catch {
+      return { error: 'The sample is not valid JSON', result: null, usesDefaultText: false };
+    }
+  }, [sampleResponse, mapping, adapter]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {RESPONSE_MAPPING_FIELDS.map(({ key, label, example }) => {
+          const path = mapping[key] ?? '';
+          const error = path.trim() ? validatePath(path) : null;
+
+          return (
+            <div key={key}>
+              <label className="block text-sm font-medium text-white mb-1">
+                {label}
+              </label>
+              <input
+                type="text"
+                value={path}
+                onChange={(e) => onChange({ ...mapping, [key]: e.target.value })}
+                className="w-full px-4 py-2 bg-[#1A1B1E] text-white font-mono text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                placeholder={key === 'text' ? `Provider default, e.g. ${example}` : `e.g. ${example}`}
+              />
+              {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+            </div>
+          );
+        })}
+        <p className="text-sm text-[#757575]">
+          JSONPath-style: <code>$.a.b</code>, <code>$['a b']</code>, <code>[0]</code>, <code>[-1]</code> and the
+          {' '}<code>[*]</code> wildcard. Empty or unmatched rules fall back to the provider's defaults.
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white mb-2">
+          Sample Response
+        </label>
+        <textarea
+          rows={8}
+          value={sampleResponse}
+          onChange={(e) => onSampleResponseChange(e.target.value)}
+          className="w-full px-4 py-2 bg-[#1A1B1E] text-white font-mono text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          placeholder="Paste a JSON reply, or run Test API on the API Configuration tab"
+        />
+      </div>
+
+      {preview && (
+        <div>
+          <label className="block text-sm font-medium text-white mb-2">
+            Extracted Fields
+          </label>
+          {preview.error ? (
+            <p className="text-sm text-red-500">{preview.error}</p>
+          ) : (
+            <>
+              <pre className="w-full p-4 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] font-mono text-sm whitespace-pre-wrap">
+                {JSON.stringify(preview.result, null, 2)}
+              </pre>
+              {preview.usesDefaultText && (
+                <p className="mt-1 text-sm text-[#757575]">The answer text comes from the {adapter.label} default.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Fragment } from 'react';
+import { MessageSquare, Loader2 } from 'lucide-react';
+import type { SearchResult } from '../lib/types';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  loading: boolean;
+  onOpen: (result: SearchResult) => void;
+}
+
+// Snippets come back from ts_headline with <mark> around matched terms. Only
+// those markers are turned into elements; everything else renders as text.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-[#BB86FC]/30 text-white rounded px-0.5">{part}</mark>
+        : <Fragment key={i}>{part}</Fragment>
+      )}
+    </>
+  );
+}
+
+export function SearchResults({ results, loading, onOpen }: SearchResultsProps) {
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-4">No matching messages</p>;
+  }
+
+  return (
+    <>
+      {results.map(result => (
+        <button
+          key={`${result.conversation_id}-${result.message_id ?? 'title'}`}
+          onClick={() => onOpen(result)}
+          className="w-full text-left p-3 rounded-md hover:bg-gray-800/50 transition-colors"
+        >
+          <div className="flex items-start space-x-3">
+            <MessageSquare className="h-5 w-5 text-gray-400 mt-1 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm text-white truncate">
+                {result.message_id
+                  ? result.conversation_title
+                  : <HighlightedSnippet snippet={result.snippet} />}
+              </p>
+              {result.message_id && (
+                <p className="text-xs text-gray-300 mt-1 line-clamp-3">
+                  <span className="text-gray-400">
+                    {result.sender_type === 'user' ? 'You: ' : 'Sharon: '}
+                  </span>
+                  <HighlightedSnippet snippet={result.snippet} />
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {result.workflow_name && `${result.workflow_name} · `}
+                {new Date(result.created_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </button>
+      ))}
+    </>
+  );
+}
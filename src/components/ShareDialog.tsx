@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { X, Link2, Copy, Building2, UserPlus, Trash2 } from 'lucide-react';
+import {
+  searchShareRecipients,
+  fetchConversationShares,
+  shareConversation,
+  removeConversationShare,
+  fetchShareLinks,
+  createShareLink,
+  revokeShareLink,
+  getShareLinkUrl,
+  getSharedConversationUrl,
+  isShareLinkActive
+} from '../lib/sharing';
+import type { ConversationShare, ShareLink, ShareRecipient } from '../lib/types';
+import toast from 'react-hot-toast';
+
+const LINK_EXPIRY_OPTIONS: Record<string, number | null> = {
+  'Never': null,
+  '1 day': 1,
+  '7 days': 7,
+  '30 days': 30,
+};
+
+interface ShareDialogProps {
+  conversationId: string;
+  onClose: () => void;
+}
+
+export function ShareDialog({ conversationId, onClose }: ShareDialogProps) {
+  const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ShareRecipient[]>([]);
+  const [expiry, setExpiry] = useState('7 days');
+  const [saving, setSaving] = useState(false);
+
+  const loadShares = async () => {
+    try {
+      const [shareRows, linkRows] = await Promise.all([
+        fetchConversationShares(conversationId),
+        fetchShareLinks(conversationId)
+      ]);
+      setShares(shareRows);
+      setLinks(linkRows);
+    } catch (error) {
+      console.error('Error loading shares:', error);
+      toast.error('Failed to load sharing settings');
+    }
+  };
+
+  useEffect(() => {
+    loadShares();
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const recipients = await searchShareRecipients(query);
+        setResults(recipients.filter(r => !shares.some(s => s.shared_with === r.id)));
+      } catch (error) {
+        console.error('Error searching users:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query, shares]);
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+      await loadShares();
+      toast.success(success);
+    } catch (error) {
+      console.error(failure, error);
+      toast.error(failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyToClipboard = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleCreateLink = () => runAction(async () => {
+    const days = LINK_EXPIRY_OPTIONS[expiry];
+    const link = await createShareLink(
+      conversationId,
+      days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+    );
+    await copyToClipboard(getShareLinkUrl(link.token));
+  }, 'Share link created', 'Failed to create share link');
+
+  const companyShare = shares.find(s => s.scope === 'company');
+  const userShares = shares.filter(s => s.scope === 'user');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1F1F1F] rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-[#2D2D2D]">
+          <h3 className="text-lg font-medium text-white">Share Conversation</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <section className="space-y-3">
+            <h4 className="text-sm font-medium text-[#E0E0E0] flex items-center">
+              <UserPlus className="w-4 h-4 mr-2" />
+              People
+            </h4>
+            <div className="relative">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search your company or enter an exact email"
+                className="w-full px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              />
+              {results.length > 0 && (
+                <div className="absolute top-full left-0 right-0 mt-1 bg-[#2C2C2C] border border-[#2D2D2D] rounded-lg shadow-lg z-10">
+                  {results.map(recipient => (
+                    <button
+                      key={recipient.id}
+                      onClick={() => {
+                        setQuery('');
+                        runAction(
+                          () => shareConversation(conversationId, { scope: 'user', userId: recipient.id }),
+                          `Shared with ${recipient.email}`,
+                          'Failed to share conversation'
+                        );
+                      }}
+                      className="w-full text-left px-3 py-2 text-sm text-white hover:bg-[#1F1F1F]"
+                    >
+                      {recipient.email}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {userShares.length > 0 && (
+              <ul className="space-y-1">
+                {userShares.map(share => (
+                  <li key={share.id} className="flex items-center justify-between text-sm text-[#E0E0E0] bg-[#2C2C2C] px-3 py-2 rounded-lg">
+                    <span>{share.email}</span>
+                    <button
+                      onClick={() => runAction(() => removeConversationShare(share.id), 'Access removed', 'Failed to remove access')}
+                      disabled={saving}
+                      className="text-gray-400 hover:text-red-400"
+                      title="Remove access"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <label className="flex items-center justify-between text-sm text-[#E0E0E0]">
+              <span className="flex items-center">
+                <Building2 className="w-4 h-4 mr-2" />
+                Everyone in my company
+              </span>
+              <input
+                type="checkbox"
+                checked={!!companyShare}
+                disabled={saving}
+                onChange={() => companyShare
+                  ? runAction(() => removeConversationShare(companyShare.id), 'Company access removed', 'Failed to remove company access')
+                  : runAction(() => shareConversation(conversationId, { scope: 'company' }), 'Shared with your company', 'Failed to share conversation')
+                }
+                className="rounded border-gray-600 text-[#BB86FC] focus:ring-[#BB86FC]"
+              />
+            </label>
+            {shares.length > 0 && (
+              <button
+                onClick={() => copyToClipboard(getSharedConversationUrl(conversationId))}
+                className="flex items-center text-sm text-[#BB86FC] hover:text-[#9B66DC]"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Copy link for people with access
+              </button>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-sm font-medium text-[#E0E0E0] flex items-center">
+              <Link2 className="w-4 h-4 mr-2" />
+              Read-only links
+            </h4>
+            <div className="flex items-center space-x-2">
+              <select
+                value={expiry}
+                onChange={(e) => setExpiry(e.target.value)}
+                className="px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              >
+                {Object.keys(LINK_EXPIRY_OPTIONS).map(label => (
+                  <option key={label} value={label}>Expires: {label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreateLink}
+                disabled={saving}
+                className="px-3 py-2 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+              >
+                Create link
+              </button>
+            </div>
+            {links.length > 0 && (
+              <ul className="space-y-1">
+                {links.map(link => {
+                  const active = isShareLinkActive(link);
+                  return (
+                    <li key={link.id} className="flex items-center justify-between text-sm bg-[#2C2C2C] px-3 py-2 rounded-lg">
+                      <span className={active ? 'text-[#E0E0E0]' : 'text-[#757575] line-through'}>
+                        …{link.token.slice(-8)}
+                        <span className="ml-2 text-xs text-[#757575]">
+                          {link.revoked_at
+                            ? 'Revoked'
+                            : link.expires_at
+                              ? `Expires ${new Date(link.expires_at).toLocaleDateString()}`
+                              : 'No expiry'}
+                        </span>
+                      </span>
+                      {active && (
+                        <span className="flex items-center space-x-2">
+                          <button
+                            onClick={() => copyToClipboard(getShareLinkUrl(link.token))}
+                            className="text-gray-400 hover:text-[#BB86FC]"
+                            title="Copy link"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => runAction(() => revokeShareLink(link.id), 'Link revoked', 'Failed to revoke link')}
+                            disabled={saving}
+                            className="text-gray-400 hover:text-red-400"
+                            title="Revoke link"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, AlertCircle, Eye } from 'lucide-react';
+import { MarkdownMessage } from './MarkdownMessage';
+import { SourcePanel } from './SourcePanel';
+import { AttachmentChips } from './AttachmentChips';
+import { getActiveThread } from '../lib/branches';
+import { normalizeSources } from '../lib/sources';
+import type { MessageSource } from '../lib/types';
+import { fetchSharedConversationById, fetchSharedConversationByToken } from '../lib/sharing';
+import type { SharedConversation } from '../lib/sharing';
+
+/**
+ * Read-only view of a conversation someone else shared, reached either through
+ * a share link (`/shared/:token`) or a direct grant
+ * (`/shared/conversation/:conversationId`). Shows the latest branch only.
+ */
+export function SharedConversationView() {
+  const { token, conversationId } = useParams();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openSources, setOpenSources] = useState<{ sources: MessageSource[]; index: number } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = token
+          ? await fetchSharedConversationByToken(token)
+          : await fetchSharedConversationById(conversationId!);
+        setConversation(data);
+      } catch (err) {
+        console.error('Error loading shared conversation:', err);
+        setError(err instanceof Error ? err.message : 'This conversation is not available');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [token, conversationId]);
+
+  const thread = useMemo(
+    () => getActiveThread(
+      (conversation?.messages || []).map(msg => ({
+        ...msg,
+        parentId: msg.parent_message_id,
+        sources: normalizeSources(msg.details?.sources)
+      })),
+      {}
+    ),
+    [conversation]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#121212]">
+        <Loader2 className="w-8 h-8 text-[#BB86FC] animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !conversation) {
+    return (
+      <div className="min-h-screen bg-[#121212] flex items-center justify-center p-4">
+        <div className="bg-[#1F1F1F] rounded-lg p-8 max-w-md w-full text-center space-y-4">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto" />
+          <h2 className="text-xl font-bold text-white">Conversation Unavailable</h2>
+          <p className="text-[#757575]">{error || 'You do not have access to this conversation.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#121212]">
+      <div className="bg-[#1F1F1F] p-4 border-b border-[#2D2D2D] shadow-lg">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div>
+            <h2 className="text-[#E0E0E0] text-lg font-medium">{conversation.title}</h2>
+            <p className="text-xs text-[#757575]">
+              {conversation.workflow_name && `${conversation.workflow_name} · `}
+              {new Date(conversation.created_at).toLocaleString()}
+            </p>
+          </div>
+          <span className="flex items-center text-sm text-[#BB86FC]">
+            <Eye className="w-4 h-4 mr-1" />
+            Read-only
+          </span>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-4 space-y-6">
+        {thread.map(msg => (
+          <div key={msg.id} className={`flex flex-col ${msg.sender_type === 'user' ? 'items-end' : 'items-start'}`}>
+            <span className="text-sm text-[#757575] mb-1">
+              {msg.sender_type === 'user' ? 'Question' : "Sharon's Answer"}
+            </span>
+            <div className={`p-4 rounded-2xl shadow-md max-w-2xl w-full ${
+              msg.sender_type === 'user'
+                ? 'bg-[#BB86FC] text-[#E0E0E0]'
+                : 'bg-[#2C2C2C] text-[#E0E0E0]'
+            }`}>
+              {msg.sender_type === 'assistant'
+                ? (
+                  <MarkdownMessage
+                    text={msg.text}
+                    sources={msg.sources}
+                    onOpenSource={(index) => setOpenSources({ sources: msg.sources, index })}
+                  />
+                )
+                : <span className="whitespace-pre-wrap">{msg.text}</span>
+              }
+            </div>
+            <AttachmentChips attachments={msg.attachments || []} />
+            <span className="text-[#757575] text-sm mt-1">
+              {new Date(msg.created_at).toLocaleString()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {openSources && (
+        <SourcePanel
+          sources={openSources.sources}
+          activeIndex={openSources.index}
+          onClose={() => setOpenSources(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Users } from 'lucide-react';
+import { fetchConversationsSharedWithMe } from '../lib/sharing';
+import type { SharedWithMeConversation } from '../lib/sharing';
+
+/** Sidebar list of conversations shared with the current user; hidden when there are none. */
+export function SharedWithMe() {
+  const navigate = useNavigate();
+  const [conversations, setConversations] = useState<SharedWithMeConversation[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    fetchConversationsSharedWithMe()
+      .then(setConversations)
+      .catch(error => console.error('Error fetching shared conversations:', error));
+  }, []);
+
+  if (conversations.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center text-sm text-gray-400 hover:text-white"
+      >
+        {open ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+        <Users className="h-4 w-4 mr-2" />
+        Shared with me ({conversations.length})
+      </button>
+      {open && (
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {conversations.map(conversation => (
+            <button
+              key={conversation.id}
+              onClick={() => navigate(`/shared/conversation/${conversation.id}`)}
+              className="w-full text-left px-3 py-2 rounded-md hover:bg-gray-800/50"
+            >
+              <p className="text-sm text-white truncate">{conversation.title}</p>
+              <p className="text-xs text-gray-400 truncate">
+                {conversation.owner_email} · {new Date(conversation.shared_at).toLocaleDateString()}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
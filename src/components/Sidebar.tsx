@@ -1,7 +1,15 @@
-import { useState, useEffect } from 'react';
-import { ChevronDown, Search, MessageSquare, Trash2, Check } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { ChevronDown, Search, MessageSquare, Trash2, Check, Pin, Folder } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import type { WorkflowConfig, Workflow } from '../lib/types';
+import { ExportMenu } from './ExportMenu';
+import { ConversationActions } from './ConversationActions';
+import { ConversationFilters } from './ConversationFilters';
+import { SearchResults } from './SearchResults';
+import { SharedWithMe } from './SharedWithMe';
+import { fetchFolders, fetchTags, updateConversation, searchConversations, subscribeToConversations } from '../lib/conversations';
+import { WORKFLOW_CONFIG_COLUMNS } from '../lib/workflows';
+import { TAG_COLORS } from '../lib/types';
+import type { WorkflowConfig, Workflow, ConversationFolder, ConversationTag, SearchResult } from '../lib/types';
 import toast from 'react-hot-toast';
 
 interface Conversation {
@@ -9,6 +17,15 @@ interface Conversation {
   title: string;
   created_at: string;
   workflow_id: string;
+  pinned: boolean;
+  folder_id: string | null;
+  tagIds: string[];
+  // An answer arrived after the conversation was last opened
+  unread: boolean;
+}
+
+function isUnread(row: { last_answer_at?: string | null; last_read_at?: string | null }) {
+  return !!row.last_answer_at && (!row.last_read_at || row.last_answer_at > row.last_read_at);
 }
 
 interface SidebarProps {
@@ -16,10 +33,12 @@ interface SidebarProps {
   selectedChat: string | null;
   selectedWorkflow: WorkflowConfig | null;
   onSelectWorkflow: (workflow: WorkflowConfig) => void;
-  onSelectChat: (id: string) => void;
+  onSelectChat: (id: string | null) => void;
+  onRenameChat?: (id: string, title: string) => void;
+  onOpenMessage?: (conversationId: string, messageId: string | null) => void;
 }
 
-export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWorkflow, onSelectChat }: SidebarProps) {
+export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWorkflow, onSelectChat, onRenameChat, onOpenMessage }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isWorkflowDropdownOpen, setIsWorkflowDropdownOpen] = useState(false);
@@ -28,45 +47,151 @@ export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWor
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [page, setPage] = useState(0);
+  const [folders, setFolders] = useState<ConversationFolder[]>([]);
+  const [tags, setTags] = useState<ConversationTag[]>([]);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
   const LIMIT = 15;
+  const selectedChatRef = useRef(selectedChat);
+  selectedChatRef.current = selectedChat;
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
   
   useEffect(() => {
     fetchWorkflows();
+    fetchOrganization();
   }, []);
 
   useEffect(() => {
     if (selectedWorkflow) {
       fetchConversations();
     }
-  }, [selectedWorkflow, searchQuery]);
+  }, [selectedWorkflow, selectedFolderId, selectedTagId]);
+
+  // Keep the list in step with other tabs and devices
+  useEffect(() => {
+    if (!selectedWorkflow) return;
+
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+
+      unsubscribe = subscribeToConversations(user.id, {
+        // New rows need their tags and a place in the sort order
+        onInsert: row => {
+          if (row.workflow_id === selectedWorkflow.id) fetchConversations();
+        },
+        onUpdate: row => {
+          setConversations(prev => prev.map(c => c.id === row.id
+            ? { ...c, title: row.title, pinned: row.pinned, folder_id: row.folder_id, unread: isUnread(row) }
+            : c));
+          onRenameChat?.(row.id, row.title);
+        },
+        onDelete: id => {
+          if (!conversationsRef.current.some(c => c.id === id)) return;
+          setConversations(prev => prev.filter(c => c.id !== id));
+          if (id === selectedChatRef.current) onSelectChat(null);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [selectedWorkflow, selectedFolderId, selectedTagId]);
+
+  const isSearching = searchQuery.trim().length >= 2;
+
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults([]);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        setSearchResults(await searchConversations(searchQuery.trim()));
+      } catch (error) {
+        console.error('Error searching conversations:', error);
+        toast.error('Search failed');
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const fetchOrganization = async () => {
+    try {
+      const [folderRows, tagRows] = await Promise.all([fetchFolders(), fetchTags()]);
+      setFolders(folderRows);
+      setTags(tagRows);
+    } catch (error) {
+      console.error('Error fetching folders and tags:', error);
+    }
+  };
 
   const fetchConversations = async (loadMore = false) => {
     try {
       if (!selectedWorkflow) return;
 
       const currentPage = loadMore ? page + 1 : 0;
-      
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Shared conversations are also readable now, but only the user's own
+      // belong in the history; shared ones open in the read-only viewer.
+      // The tag filter goes through a separate inner-joined embed so that
+      // `tags` still lists every tag on the matching conversations.
       const query = supabase
         .from('conversations')
-        .select('*')
+        .select(`*, tags:conversation_tag_assignments(tag_id)${
+          selectedTagId ? ', tag_filter:conversation_tag_assignments!inner(tag_id)' : ''
+        }`)
         .eq('workflow_id', selectedWorkflow.id)
+        .eq('created_by', user.id)
+        .order('pinned', { ascending: false })
         .order('created_at', { ascending: false })
         .range(currentPage * LIMIT, (currentPage + 1) * LIMIT - 1);
 
-      if (searchQuery) {
-        query.ilike('title', `%${searchQuery}%`);
+      if (selectedFolderId) {
+        query.eq('folder_id', selectedFolderId);
+      }
+      if (selectedTagId) {
+        query.eq('tag_filter.tag_id', selectedTagId);
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
 
+      const rows: Conversation[] = (data || []).map((row: any) => ({
+        id: row.id,
+        title: row.title,
+        created_at: row.created_at,
+        workflow_id: row.workflow_id,
+        pinned: row.pinned,
+        folder_id: row.folder_id,
+        tagIds: (row.tags || []).map((t: { tag_id: string }) => t.tag_id),
+        unread: isUnread(row)
+      }));
+
       if (loadMore) {
-        setConversations(prev => [...prev, ...(data || [])]);
-        setHasMore(data.length === LIMIT);
+        setConversations(prev => [...prev, ...rows]);
+        setHasMore(rows.length === LIMIT);
       } else {
-        setConversations(data || []);
-        setHasMore(data.length === LIMIT);
+        setConversations(rows);
+        setHasMore(rows.length === LIMIT);
       }
       
       setPage(currentPage);
@@ -87,7 +212,7 @@ export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWor
       // Query without user filtering to test RLS bypass
       const { data, error } = await supabase
         .from('workflows')
-        .select('id, name, worker_id, api_auth_token, supports_documents, supports_images')
+        .select(WORKFLOW_CONFIG_COLUMNS)
         .eq('status', 'active')
         .order('order', { ascending: true });
 
@@ -109,6 +234,25 @@ export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWor
     }
   }
   
+  const handleRename = async (conversation: Conversation) => {
+    const title = renameText.trim();
+    setRenamingId(null);
+    if (!title || title === conversation.title) return;
+
+    try {
+      await updateConversation(conversation.id, { title });
+      setConversations(prev => prev.map(c => c.id === conversation.id ? { ...c, title } : c));
+      onRenameChat?.(conversation.id, title);
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      toast.error('Failed to rename conversation');
+    }
+  };
+
+  const handleOpenResult = (result: SearchResult) => {
+    onOpenMessage?.(result.conversation_id, result.message_id);
+  };
+
   const handleLoadMore = async () => {
     setLoadingMore(true);
     await fetchConversations(true);
@@ -170,72 +314,155 @@ export function Sidebar({ onNewChat, selectedChat, selectedWorkflow, onSelectWor
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
           <input
             type="text"
-            placeholder="Search conversations..."
+            placeholder="Search all messages..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full bg-gray-800 text-white pl-10 pr-4 py-2 rounded-md placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
           />
         </div>
+
+        {/* Folders and Tags */}
+        <ConversationFilters
+          folders={folders}
+          tags={tags}
+          selectedFolderId={selectedFolderId}
+          selectedTagId={selectedTagId}
+          onSelectFolder={setSelectedFolderId}
+          onSelectTag={setSelectedTagId}
+          onChange={() => {
+            fetchOrganization();
+            fetchConversations();
+          }}
+        />
+
+        <SharedWithMe />
       </div>
 
       {/* Chat History */}
       <div className="flex-1 overflow-y-auto">
         <div className="space-y-1 p-2">
-          {conversations.map((conversation) => (
-            <button
-              key={conversation.id}
-              onClick={() => onSelectChat(conversation.id)}
-              className={`w-full text-left p-3 rounded-md transition-colors ${
-                selectedChat === conversation.id
-                  ? 'bg-gray-800'
-                  : 'hover:bg-gray-800/50'
-              }`}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex items-start space-x-3">
-                  <MessageSquare className="h-5 w-5 text-gray-400 mt-1" />
-                  <div>
-                    <p className="text-sm text-white line-clamp-3">{conversation.title}</p>
-                    <p className="text-xs text-gray-400 mt-1">
-                      {new Date(conversation.created_at).toLocaleString()}
-                    </p>
-                  </div>
-                </div>
+          {isSearching ? (
+            <SearchResults results={searchResults} loading={searching} onOpen={handleOpenResult} />
+          ) : (
+            <>
+              {conversations.map((conversation) => {
+                const renaming = renamingId === conversation.id;
+                // An input cannot sit inside a button, so the row is a div while renaming
+                const RowElement = renaming ? 'div' : 'button';
+                return (
+                  <RowElement
+                    key={conversation.id}
+                    role={renaming ? 'button' : undefined}
+                    onClick={() => onSelectChat(conversation.id)}
+                    className={`group w-full text-left p-3 rounded-md transition-colors ${
+                      selectedChat === conversation.id
+                        ? 'bg-gray-800'
+                        : 'hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-3 min-w-0">
+                        {conversation.pinned
+                          ? <Pin className="h-5 w-5 text-[#BB86FC] mt-1 flex-shrink-0" />
+                          : <MessageSquare className="h-5 w-5 text-gray-400 mt-1 flex-shrink-0" />}
+                        <div className="min-w-0">
+                          {renaming ? (
+                            <input
+                              type="text"
+                              autoFocus
+                              value={renameText}
+                              onChange={(e) => setRenameText(e.target.value)}
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => {
+                                // Blurring submits, so Enter does not save a second time
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                                if (e.key === 'Escape') setRenamingId(null);
+                              }}
+                              onBlur={() => handleRename(conversation)}
+                              className="w-full bg-gray-700 text-white text-sm px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                          ) : (
+                            <p className={`text-sm text-white line-clamp-3 ${conversation.unread && selectedChat !== conversation.id ? 'font-semibold' : ''}`}>
+                              {conversation.unread && selectedChat !== conversation.id && (
+                                <span className="inline-block w-2 h-2 mr-2 mb-0.5 rounded-full bg-[#BB86FC]" title="New answer" />
+                              )}
+                              {conversation.title}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-400 mt-1">
+                            {new Date(conversation.created_at).toLocaleString()}
+                          </p>
+                          {(conversation.tagIds.length > 0 || (conversation.folder_id && !selectedFolderId)) && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {conversation.folder_id && !selectedFolderId && (
+                                <span className="flex items-center text-xs text-gray-400">
+                                  <Folder className="h-3 w-3 mr-1" />
+                                  {folders.find(f => f.id === conversation.folder_id)?.name}
+                                </span>
+                              )}
+                              {tags.filter(tag => conversation.tagIds.includes(tag.id)).map(tag => (
+                                <span key={tag.id} className={`px-2 py-0.5 rounded-full text-xs ${TAG_COLORS[tag.color]}`}>
+                                  {tag.name}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <ConversationActions
+                          conversation={conversation}
+                          folders={folders}
+                          tags={tags}
+                          onRename={() => {
+                            setRenamingId(conversation.id);
+                            setRenameText(conversation.title);
+                          }}
+                          onChange={() => fetchConversations()}
+                        />
+                        <ExportMenu
+                          conversationId={conversation.id}
+                          className="opacity-0 group-hover:opacity-100"
+                        />
+                        <button
+                          onClick={async (e) => {
+                            e.stopPropagation();
+                            if (confirm('Are you sure you want to delete this conversation?')) {
+                              const { error } = await supabase
+                                .from('conversations')
+                                .delete()
+                                .eq('id', conversation.id);
+                              
+                              if (error) {
+                                toast.error('Failed to delete conversation');
+                              } else {
+                                toast.success('Conversation deleted');
+                                if (selectedChat === conversation.id) {
+                                  onSelectChat(null);
+                                }
+                                fetchConversations();
+                              }
+                            }
+                          }}
+                          className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </RowElement>
+                );
+              })}
+              {hasMore && (
                 <button
-                  onClick={async (e) => {
-                    e.stopPropagation();
-                    if (confirm('Are you sure you want to delete this conversation?')) {
-                      const { error } = await supabase
-                        .from('conversations')
-                        .delete()
-                        .eq('id', conversation.id);
-                      
-                      if (error) {
-                        toast.error('Failed to delete conversation');
-                      } else {
-                        toast.success('Conversation deleted');
-                        if (selectedChat === conversation.id) {
-                          onSelectChat(null);
-                        }
-                        fetchConversations();
-                      }
-                    }
-                  }}
-                  className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400"
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="w-full py-2 text-center text-gray-400 hover:text-white transition-colors disabled:opacity-50"
                 >
-                  <Trash2 className="h-4 w-4" />
+                  {loadingMore ? 'Loading...' : 'Load More'}
                 </button>
-              </div>
-            </button>
-          ))}
-          {hasMore && (
-            <button
-              onClick={handleLoadMore}
-              disabled={loadingMore}
-              className="w-full py-2 text-center text-gray-400 hover:text-white transition-colors disabled:opacity-50"
-            >
-              {loadingMore ? 'Loading...' : 'Load More'}
-            </button>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import { X, ExternalLink, FileText } from 'lucide-react';
+import type { MessageSource } from '../lib/types';
+
+interface SourcePanelProps {
+  sources: MessageSource[];
+  activeIndex: number;
+  onClose: () => void;
+}
+
+/** Side panel listing an answer's sources, scrolled to the citation clicked. */
+export function SourcePanel({ sources, activeIndex, onClose }: SourcePanelProps) {
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full max-w-sm bg-[#1F1F1F] border-l border-[#2D2D2D] shadow-xl z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-[#2D2D2D]">
+        <h3 className="text-lg font-medium text-white">Sources</h3>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto p-4 space-y-3">
+        {sources.map((source, index) => (
+          <li
+            key={index}
+            ref={index === activeIndex ? activeRef : undefined}
+            className={`rounded-lg p-3 bg-[#2C2C2C] border ${
+              index === activeIndex ? 'border-[#BB86FC]' : 'border-[#2D2D2D]'
+            }`}
+          >
+            <div className="flex items-start space-x-2">
+              <span className="text-xs font-medium text-[#BB86FC] mt-0.5">[{index + 1}]</span>
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm font-medium text-[#E0E0E0] break-words">{source.title}</p>
+                {source.page !== null && (
+                  <p className="flex items-center text-xs text-[#757575]">
+                    <FileText className="w-3 h-3 mr-1" />
+                    Page {source.page}
+                  </p>
+                )}
+                {source.snippet && (
+                  <p className="text-sm text-gray-300 whitespace-pre-wrap">{source.snippet}</p>
+                )}
+                {source.url && (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-xs text-[#BB86FC] hover:text-[#9B66DC] break-all"
+                  >
+                    <ExternalLink className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {source.url}
+                  </a>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { extractPlaceholders, fillTemplate } from '../lib/templates';
+import type { PromptTemplate } from '../lib/types';
+
+interface TemplateFillFormProps {
+  template: PromptTemplate;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+export function TemplateFillForm({ template, onInsert, onClose }: TemplateFillFormProps) {
+  const placeholders = extractPlaceholders(template.body);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const isComplete = placeholders.every(name => values[name]?.trim());
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!isComplete) return;
+          onInsert(fillTemplate(template.body, values));
+        }}
+        className="bg-[#1F1F1F] rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#2D2D2D]">
+          <h3 className="text-lg font-medium text-white">{template.name}</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {placeholders.map((name, index) => (
+            <div key={name}>
+              <label className="block text-sm font-medium text-gray-300 mb-1">{name}</label>
+              <textarea
+                rows={2}
+                autoFocus={index === 0}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className="w-full px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              />
+            </div>
+          ))}
+
+          <div>
+            <p className="text-xs text-[#757575] mb-1">Preview</p>
+            <p className="text-sm text-[#E0E0E0] bg-[#2C2C2C] rounded-lg p-3 whitespace-pre-wrap">
+              {fillTemplate(template.body, Object.fromEntries(
+                Object.entries(values).filter(([, value]) => value.trim())
+              ))}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-4 border-t border-[#2D2D2D]">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-white hover:text-[#BB86FC] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!isComplete}
+            className="px-4 py-2 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+          >
+            Insert
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { X, Plus, Pencil, Trash2, Building2, Search, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { fetchTemplates, saveTemplate, deleteTemplate, extractPlaceholders } from '../lib/templates';
+import { templateSchema } from '../lib/types';
+import type { PromptTemplate, TemplateFormData, WorkflowConfig } from '../lib/types';
+import toast from 'react-hot-toast';
+
+interface TemplateLibraryProps {
+  workflow: WorkflowConfig;
+  workflows: WorkflowConfig[];
+  onUse: (template: PromptTemplate) => void;
+  onClose: () => void;
+}
+
+export function TemplateLibrary({ workflow, workflows, onUse, onClose }: TemplateLibraryProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [userId, setUserId] = useState<string | null>(null);
+  const [companyName, setCompanyName] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PromptTemplate | 'new' | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting }
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: { scope: 'personal', workflow_ids: [workflow.id] },
+  });
+
+  const selectedWorkflowIds = watch('workflow_ids') || [];
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      setUserId(user?.id ?? null);
+      if (user) {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('company_name')
+          .eq('id', user.id)
+          .maybeSingle();
+        setCompanyName(profile?.company_name ?? null);
+      }
+      setTemplates(await fetchTemplates(workflow.id));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, [workflow.id]);
+
+  const openEditor = (template: PromptTemplate | 'new') => {
+    setEditing(template);
+    reset(template === 'new'
+      ? { name: '', body: '', scope: 'personal', workflow_ids: [workflow.id] }
+      : { name: template.name, body: template.body, scope: template.scope, workflow_ids: template.workflow_ids });
+  };
+
+  const onSubmit = async (data: TemplateFormData) => {
+    try {
+      await saveTemplate({ ...data, id: editing !== 'new' ? editing?.id : undefined });
+      toast.success('Template saved');
+      setEditing(null);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('Failed to save template');
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+      toast.success('Template deleted');
+      loadTemplates();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const filtered = templates.filter(t =>
+    `${t.name} ${t.body}`.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1F1F1F] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#2D2D2D]">
+          <h3 className="text-lg font-medium text-white">
+            {editing ? (editing === 'new' ? 'New Template' : 'Edit Template') : 'Prompt Templates'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {editing ? (
+          <form onSubmit={handleSubmit(onSubmit)} className="p-4 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+              <input
+                type="text"
+                {...register('name')}
+                className="w-full px-3 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              />
+              {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Prompt</label>
+              <textarea
+                rows={6}
+                {...register('body')}
+                placeholder="Summarise {{document}} for {{audience}}"
+                className="w-full px-3 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              />
+              <p className="mt-1 text-xs text-[#757575]">
+                Use {'{{name}}'} for values to fill in before sending.
+                {extractPlaceholders(watch('body') || '').length > 0 &&
+                  ` Placeholders: ${extractPlaceholders(watch('body') || '').join(', ')}`}
+              </p>
+              {errors.body && <p className="mt-1 text-sm text-red-500">{errors.body.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Visibility</label>
+              <select
+                {...register('scope')}
+                className="w-full px-3 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              >
+                <option value="personal">Only me</option>
+                <option value="company" disabled={!companyName}>Everyone in my company</option>
+              </select>
+              {!companyName && (
+                <p className="mt-1 text-xs text-[#757575]">
+                  An administrator has to assign your company before you can share templates with it.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Workflows</label>
+              <p className="text-xs text-[#757575] mb-2">Leave all unchecked to offer the template in every workflow.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {workflows.map(w => (
+                  <label key={w.id} className="flex items-center space-x-2 text-sm text-[#E0E0E0]">
+                    <input
+                      type="checkbox"
+                      checked={selectedWorkflowIds.includes(w.id)}
+                      onChange={(e) => setValue('workflow_ids', e.target.checked
+                        ? [...selectedWorkflowIds, w.id]
+                        : selectedWorkflowIds.filter(id => id !== w.id))}
+                      className="rounded border-gray-600 text-[#BB86FC] focus:ring-[#BB86FC]"
+                    />
+                    <span>{w.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 text-sm text-white hover:text-[#BB86FC] transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+              >
+                Save Template
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2 p-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search templates..."
+                  className="w-full bg-[#1A1B1E] text-white pl-9 pr-3 py-2 text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                />
+              </div>
+              <button
+                onClick={() => openEditor('new')}
+                className="flex items-center px-3 py-2 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                New
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 text-[#BB86FC] animate-spin" />
+                </div>
+              ) : filtered.length === 0 ? (
+                <p className="text-center text-sm text-[#757575] py-8">
+                  No templates for {workflow.name} yet
+                </p>
+              ) : filtered.map(template => (
+                <div
+                  key={template.id}
+                  className="group bg-[#2C2C2C] rounded-lg p-3 hover:ring-1 hover:ring-[#BB86FC] cursor-pointer"
+                  onClick={() => onUse(template)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center text-sm font-medium text-[#E0E0E0]">
+                      {template.name}
+                      {template.scope === 'company' && (
+                        <Building2 className="w-3 h-3 ml-2 text-[#757575]" aria-label="Company template" />
+                      )}
+                    </span>
+                    {template.created_by === userId && (
+                      <span className="flex items-center space-x-2 opacity-0 group-hover:opacity-100">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEditor(template);
+                          }}
+                          className="text-gray-400 hover:text-[#BB86FC]"
+                          title="Edit template"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(template);
+                          }}
+                          className="text-gray-400 hover:text-red-400"
+                          title="Delete template"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#757575] mt-1 line-clamp-2">{template.body}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
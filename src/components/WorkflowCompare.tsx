@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import { X, Paperclip, Loader2, Square, Check, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { MarkdownMessage } from './MarkdownMessage';
+import { uploadAttachment, validateAttachment } from '../lib/attachments';
+import { runComparisonAnswer, saveComparisonAnswer } from '../lib/compare';
+import type { ComparisonAnswer } from '../lib/compare';
+import type { Attachment, WorkflowConfig } from '../lib/types';
+
+interface WorkflowCompareProps {
+  workflows: WorkflowConfig[];
+  initialWorkflowId: string | null;
+  userId: string;
+  onKeep: (conversationId: string, workflow: WorkflowConfig) => void;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number | null) {
+  return ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Sends one prompt to several workflows at once and shows the answers side
+ * by side, so a worker can be judged against another on the same question.
+ */
+export function WorkflowCompare({ workflows, initialWorkflowId, userId, onKeep, onClose }: WorkflowCompareProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => {
+    const first = workflows.find(w => w.id === initialWorkflowId) ?? workflows[0];
+    const second = workflows.find(w => w.id !== first?.id);
+    return [first, second].filter((w): w is WorkflowConfig => !!w).map(w => w.id);
+  });
+  const [prompt, setPrompt] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [question, setQuestion] = useState<{ text: string; attachments: Attachment[] } | null>(null);
+  const [answers, setAnswers] = useState<Record<string, ComparisonAnswer>>({});
+  const [running, setRunning] = useState(false);
+  const [keepingId, setKeepingId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedWorkflows = workflows.filter(w => selectedIds.includes(w.id));
+  const comparedWorkflows = workflows.filter(w => answers[w.id]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const toggleWorkflow = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const text = prompt.trim();
+    if (!text || selectedWorkflows.length < 2 || running) return;
+
+    const fileError = selectedWorkflows.flatMap(workflow =>
+      files.map(file => {
+        const error = validateAttachment(file, workflow);
+        return error && `${workflow.name}: ${file.name}: ${error}`;
+      })
+    ).find(Boolean);
+    if (fileError) {
+      toast.error(fileError);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setRunning(true);
+    setAnswers({});
+
+    try {
+      // Upload once; every workflow gets the same links
+      const attachments = await Promise.all(files.map(file => uploadAttachment(file, userId, () => {})));
+      const compared = { text, attachments };
+      setQuestion(compared);
+
+      await Promise.all(selectedWorkflows.map(workflow =>
+        runComparisonAnswer(
+          workflow,
+          compared,
+          answer => setAnswers(prev => ({ ...prev, [workflow.id]: answer })),
+          abortController.signal
+        )
+      ));
+    } catch (error) {
+      console.error('Error running comparison:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload attachments');
+    } finally {
+      abortControllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleKeep = async (workflow: WorkflowConfig) => {
+    const answer = answers[workflow.id];
+    if (!question || !answer) return;
+
+    try {
+      setKeepingId(workflow.id);
+      const conversationId = await saveComparisonAnswer(userId, workflow, question, answer);
+      toast.success(`Saved to a new ${workflow.name} conversation`);
+      onKeep(conversationId, workflow);
+    } catch (error) {
+      console.error('Error saving compared answer:', error);
+      toast.error('Failed to save the answer');
+    } finally {
+      setKeepingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-[#1F1F1F] rounded-lg shadow-xl w-full max-w-6xl h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-[#2D2D2D]">
+          <h3 className="text-lg font-medium text-white">Compare workflows</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-3 border-b border-[#2D2D2D]">
+          <div className="flex flex-wrap gap-2">
+            {workflows.map(workflow => (
+              <button
+                key={workflow.id}
+                type="button"
+                onClick={() => toggleWorkflow(workflow.id)}
+                disabled={running}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  selectedIds.includes(workflow.id)
+                    ? 'border-[#BB86FC] text-[#BB86FC] bg-[#BB86FC]/10'
+                    : 'border-[#2D2D2D] text-[#757575] hover:text-[#E0E0E0]'
+                }`}
+              >
+                {workflow.name}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            rows={3}
+            autoFocus
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Ask every selected workflow the same question..."
+            className="w-full px-3 py-2 bg-[#1A1B1E] text-white text-sm rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+          />
+
+          <div className="flex items-center justify-between">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  setFiles(prev => [...prev, ...Array.from(e.target.files || [])]);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={running}
+                className="flex items-center text-sm text-[#757575] hover:text-[#BB86FC] transition-colors"
+              >
+                <Paperclip className="w-4 h-4 mr-1" />
+                Attach
+              </button>
+              {files.map((file, index) => (
+                <span key={index} className="flex items-center text-xs text-[#E0E0E0] bg-[#2C2C2C] rounded px-2 py-1">
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                    disabled={running}
+                    className="ml-1 text-[#757575] hover:text-red-400"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+
+            {running ? (
+              <button
+                type="button"
+                onClick={() => abortControllerRef.current?.abort()}
+                className="flex items-center px-4 py-2 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!prompt.trim() || selectedWorkflows.length < 2}
+                className="px-4 py-2 text-sm bg-[#BB86FC] text-white rounded-lg hover:bg-opacity-90 disabled:opacity-50"
+                title={selectedWorkflows.length < 2 ? 'Select at least two workflows' : undefined}
+              >
+                Compare {selectedWorkflows.length} workflows
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div
+          className="flex-1 overflow-auto p-4 grid gap-4"
+          style={{ gridTemplateColumns: `repeat(${Math.max(comparedWorkflows.length, 1)}, minmax(18rem, 1fr))` }}
+        >
+          {comparedWorkflows.length === 0 && (
+            <p className="text-sm text-[#757575] text-center self-center">
+              Pick two or more workflows and send a prompt to see their answers side by side.
+            </p>
+          )}
+          {comparedWorkflows.map(workflow => {
+            const answer = answers[workflow.id];
+            return (
+              <div key={workflow.id} className="flex flex-col min-h-0 bg-[#2C2C2C] rounded-lg">
+                <div className="flex items-center justify-between p-3 border-b border-[#2D2D2D]">
+                  <span className="text-sm font-medium text-[#E0E0E0] truncate">{workflow.name}</span>
+                  <span className="flex items-center text-xs text-[#757575]" title="Time to first output / full answer">
+                    {answer.status === 'running'
+                      ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                      : <Clock className="w-3 h-3 mr-1" />}
+                    {formatDuration(answer.firstOutputMs)} / {formatDuration(answer.totalMs)}
+                    {answer.details.cost !== undefined && ` · $${answer.details.cost}`}
+                  </span>
+                </div>
+                <div className="flex-1 overflow-y-auto p-3 text-[#E0E0E0]">
+                  {answer.error ? (
+                    <p className="text-sm text-red-400">{answer.error}</p>
+                  ) : (
+                    <MarkdownMessage text={answer.text} />
+                  )}
+                </div>
+                {answer.status === 'done' && (
+                  <div className="p-3 border-t border-[#2D2D2D]">
+                    <button
+                      type="button"
+                      onClick={() => handleKeep(workflow)}
+                      disabled={keepingId !== null}
+                      className="w-full flex items-center justify-center px-3 py-2 text-sm text-[#BB86FC] border border-[#BB86FC] rounded-lg hover:bg-[#BB86FC]/10 disabled:opacity-50"
+                    >
+                      {keepingId === workflow.id
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        : <Check className="w-4 h-4 mr-2" />}
+                      Keep this answer
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { FEEDBACK_REASONS } from '../lib/types';
+import type { FeedbackReason } from '../lib/types';
+import { RefreshCw, ThumbsDown } from 'lucide-react';
+
+interface FeedbackReportRow {
+  feedback_id: string;
+  rating: 1 | -1;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  created_at: string;
+  conversation_id: string;
+  message_id: string;
+  question: string | null;
+  answer: string;
+}
+
+interface WeeklySatisfaction {
+  weekStart: string;
+  label: string;
+  total: number;
+  positive: number;
+}
+
+interface WorkflowFeedbackReportProps {
+  workflowId: string;
+}
+
+const WORST_EXCHANGES_LIMIT = 10;
+
+// Monday of the date's week, in the viewer's time zone
+function getWeekStart(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// A sortable YYYY-MM-DD key from the local date, not the UTC one
+function toDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function groupByWeek(rows: FeedbackReportRow[]): WeeklySatisfaction[] {
+  const weeks = new Map<string, WeeklySatisfaction>();
+
+  for (const row of rows) {
+    const start = getWeekStart(new Date(row.created_at));
+    const weekStart = toDateKey(start);
+    const week = weeks.get(weekStart)
+      || { weekStart, label: start.toLocaleDateString(), total: 0, positive: 0 };
+    week.total += 1;
+    if (row.rating === 1) week.positive += 1;
+    weeks.set(weekStart, week);
+  }
+
+  return Array.from(weeks.values()).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
+
+function truncate(text: string | null, length: number) {
+  if (!text) return '';
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+export function WorkflowFeedbackReport({ workflowId }: WorkflowFeedbackReportProps) {
+  const [rows, setRows] = useState<FeedbackReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .rpc('get_workflow_feedback_report', { p_workflow_id: workflowId });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching feedback report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [workflowId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <RefreshCw className="w-6 h-6 animate-spin text-[#BB86FC]" />
+      </div>
+    );
+  }
+
+  const positive = rows.filter(row => row.rating === 1).length;
+  const weeks = groupByWeek(rows);
+  const worst = rows.filter(row => row.rating === -1).slice(0, WORST_EXCHANGES_LIMIT);
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-[#E0E0E0]">Answer Quality</h3>
+        <button
+          onClick={fetchReport}
+          className="text-[#BB86FC] hover:text-[#E0E0E0] transition-colors"
+        >
+          <RefreshCw className="w-5 h-5" />
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center text-[#757575] py-8">
+          No feedback yet
+        </div>
+      ) : (
+        <>
+          <div className="flex items-baseline space-x-3">
+            <span className="text-3xl font-bold text-[#E0E0E0]">
+              {Math.round((positive / rows.length) * 100)}%
+            </span>
+            <span className="text-sm text-[#757575]">
+              satisfied ({positive} of {rows.length} ratings)
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-[#E0E0E0]">Satisfaction by week</h4>
+            {weeks.map(week => {
+              const rate = Math.round((week.positive / week.total) * 100);
+              return (
+                <div key={week.weekStart} className="flex items-center space-x-3 text-sm">
+                  <span className="w-24 text-[#757575]">
+                    {week.label}
+                  </span>
+                  <div className="flex-1 h-3 bg-red-500/30 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-500" style={{ width: `${rate}%` }} />
+                  </div>
+                  <span className="w-28 text-right text-[#E0E0E0]">
+                    {rate}% of {week.total}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-[#E0E0E0]">Worst-rated exchanges</h4>
+            {worst.length === 0 ? (
+              <p className="text-sm text-[#757575]">No negative feedback</p>
+            ) : (
+              worst.map(row => (
+                <div
+                  key={row.feedback_id}
+                  className="p-4 rounded-lg border border-red-500/20 bg-red-500/10 space-y-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center space-x-2 text-sm text-red-400">
+                      <ThumbsDown className="w-4 h-4" />
+                      <span>{row.reason ? FEEDBACK_REASONS[row.reason] : 'No reason given'}</span>
+                    </span>
+                    <span className="text-xs text-[#757575]">
+                      {new Date(row.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {row.comment && (
+                    <p className="text-sm text-[#E0E0E0] italic">"{row.comment}"</p>
+                  )}
+                  <p className="text-sm text-[#E0E0E0]">
+                    <span className="text-[#757575]">Q: </span>{truncate(row.question, 300)}
+                  </p>
+                  <p className="text-sm text-[#E0E0E0]">
+                    <span className="text-[#757575]">A: </span>{truncate(row.answer, 500)}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
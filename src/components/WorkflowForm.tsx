@@ -1,44 +1,65 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { testApi } from '../lib/api';
+import { testApi, resolveApiConfig, PROVIDER_ADAPTERS } from '../lib/api';
+import type { ResolvedApiConfig } from '../lib/api';
 import { workflowSchema } from '../lib/types';
+import type { ApiConfig, ApiProvider, ContextPolicy, RetryPolicy, WorkflowVariable } from '../lib/types';
+import { DEFAULT_CONTEXT_POLICY } from '../lib/context';
+import { DEFAULT_RETRY_POLICY } from '../lib/resilience';
+import { validatePath, RESPONSE_MAPPING_FIELDS } from '../lib/response-mapping';
+import { renderBodyTemplate, validateRequestTemplate, SAMPLE_TEMPLATE_VALUES } from '../lib/request-template';
+import { ResponseMappingEditor } from './ResponseMappingEditor';
+import { RequestTemplateEditor } from './RequestTemplateEditor';
 import { supabase } from '../lib/supabase';
 import { X, Plus, Save, Trash2, Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import type { z } from 'zod';
 
-interface Variable {
-  name: string;
-  value: string;
-}
+const VARIABLE_TYPES: { value: NonNullable<WorkflowVariable['type']>; label: string }[] = [
+  { value: 'text', label: 'Single line' },
+  { value: 'textarea', label: 'Multi-line' },
+  { value: 'select', label: 'Select list' },
+];
 
-type WorkflowFormData = z.infer<typeof workflowSchema>;
+const EMPTY_VARIABLE: WorkflowVariable = { name: '', value: '', label: '', required: false, type: 'text', options: [] };
 
-interface WorkflowFormProps {
-  workflow?: WorkflowFormData & { id: string };
-  onClose: () => void;
-  onSave: () => void;
-}
+type WorkflowFormData = z.infer<typeof workflowSchema>;
 
 type FormValues = WorkflowFormData & {
   id?: string;
   worker_id?: string;
-  api_auth_token?: string;
-  variables?: Variable[];
+  // The token itself is never sent to the browser
+  has_api_auth_token?: boolean;
+  variables?: WorkflowVariable[];
+  api_config?: ApiConfig | null;
+  supports_images?: boolean;
+  context_policy?: ContextPolicy;
+  retry_policy?: RetryPolicy;
 };
 
+interface WorkflowFormProps {
+  workflow?: FormValues & { id: string };
+  onClose: () => void;
+  onSave: () => void;
+}
+
 export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
   const [saving, setSaving] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'api' | 'variables'>('general');
-  const [variables, setVariables] = useState<Variable[]>([{ name: 'request', value: 'request' }]);
+  const [activeTab, setActiveTab] = useState<'general' | 'api' | 'variables' | 'response'>('general');
+  const [variables, setVariables] = useState<WorkflowVariable[]>([{ name: 'request', value: 'request' }]);
   const [showAddVariable, setShowAddVariable] = useState(false);
-  const [newVariable, setNewVariable] = useState<Variable>({ name: '', value: '' });
+  const [newVariable, setNewVariable] = useState<WorkflowVariable>(EMPTY_VARIABLE);
+  const [newVariableOptions, setNewVariableOptions] = useState('');
   const [testingApi, setTestingApi] = useState(false);
   const [apiAuthToken, setApiAuthToken] = useState('');
   const [workerId, setWorkerId] = useState('');
+  const [apiConfig, setApiConfig] = useState<ResolvedApiConfig>(() => resolveApiConfig(null));
+  const [sampleResponse, setSampleResponse] = useState('');
   const [supportsDocuments, setSupportsDocuments] = useState<boolean>(false);
   const [supportsImages, setSupportsImages] = useState<boolean>(false);
+  const [contextPolicy, setContextPolicy] = useState<ContextPolicy>(DEFAULT_CONTEXT_POLICY);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(workflowSchema),
@@ -59,6 +80,37 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
     reset 
   } = form;
 
+  const adapter = PROVIDER_ADAPTERS[apiConfig.provider];
+  const isWorkerIdMissing = !!adapter.workerIdLabel && !workerId?.trim();
+  // The saved token is only kept for the endpoint it was saved for
+  const savedApiConfig = workflow ? resolveApiConfig(workflow.api_config) : null;
+  const canKeepSavedToken = !!workflow?.has_api_auth_token
+    && savedApiConfig?.provider === apiConfig.provider
+    && savedApiConfig?.url === (apiConfig.url.trim() || adapter.defaults.url);
+  const isAuthTokenMissing = adapter.requiresToken && !apiAuthToken?.trim() && !canKeepSavedToken;
+  const variableNames = variables.map(v => v.name);
+  const sampleValues = {
+    ...SAMPLE_TEMPLATE_VALUES,
+    ...Object.fromEntries(variables.filter(v => !(v.name in SAMPLE_TEMPLATE_VALUES)).map(v => [v.name, v.value])),
+    workflow: watch('name') || SAMPLE_TEMPLATE_VALUES.workflow,
+    workerId: workerId || SAMPLE_TEMPLATE_VALUES.workerId
+  };
+
+  const renderBodyPreview = () => {
+    if (!apiConfig.body_template?.trim()) {
+      return JSON.stringify(adapter.buildBody(workerId, {
+        ...Object.fromEntries(variables.map(v => [v.name, v.value])),
+        workflow: watch('name') || ''
+      }, false), null, 2);
+    }
+
+    try {
+      return JSON.stringify(renderBodyTemplate(apiConfig.body_template, sampleValues), null, 2);
+    } catch {
+      return 'The body template is not valid JSON';
+    }
+  };
+
   useEffect(() => {
     if (workflow) {
       console.log('Workflow data received:', workflow);
@@ -77,16 +129,22 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
       
       setSupportsDocuments(hasDocumentSupport);
       setSupportsImages(hasImageSupport);
+      setContextPolicy({ ...DEFAULT_CONTEXT_POLICY, ...workflow.context_policy });
+      setRetryPolicy({ ...DEFAULT_RETRY_POLICY, ...workflow.retry_policy });
       
       // Update controlled inputs
       setWorkerId(workflow.worker_id?.trim() || '');
-      setApiAuthToken(workflow.api_auth_token?.trim() || '');
+      setApiConfig(resolveApiConfig(workflow.api_config));
       
       // Update variables
       if (workflow.variables && Array.isArray(workflow.variables)) {
         const formattedVars = workflow.variables.map(v => ({
           name: typeof v.name === 'string' ? v.name : '',
-          value: typeof v.value === 'string' ? v.value : ''
+          value: typeof v.value === 'string' ? v.value : '',
+          label: typeof v.label === 'string' ? v.label : undefined,
+          required: v.required === true,
+          type: v.type,
+          options: Array.isArray(v.options) ? v.options : undefined
         }));
         setVariables(formattedVars.length > 0 ? formattedVars : [{ name: 'request', value: 'request' }]);
       }
@@ -100,15 +158,43 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
       // Check mandatory fields
       const missingFields = [];
       if (!data.name?.trim()) missingFields.push('Workflow Name');
-      if (!workerId?.trim()) missingFields.push('Worker ID');
-      if (!apiAuthToken?.trim()) missingFields.push('Authorization');
+      if (isWorkerIdMissing) missingFields.push(adapter.workerIdLabel);
+      if (isAuthTokenMissing) missingFields.push('Authorization');
+      if (!apiConfig.url.trim()) missingFields.push('URL');
       if (variables.length === 0) missingFields.push('At least one variable');
+      if (contextPolicy.max_turns < 1 || contextPolicy.max_chars < 1) missingFields.push('Conversation history limits');
+      // Stored as whole numbers; the database check casts them to integer
+      if (!Object.values(retryPolicy).every(Number.isInteger)
+        || retryPolicy.timeout_ms < 1000 || retryPolicy.max_retries < 0 || retryPolicy.max_retries > 10 || retryPolicy.base_delay_ms < 0
+        || retryPolicy.breaker_threshold < 0 || retryPolicy.breaker_cooldown_ms < 1000) missingFields.push('Reliability settings');
 
       if (missingFields.length > 0) {
         toast.error(`Missing required fields: ${missingFields.join(', ')}`);
         setSaving(false);
         return;
       }
+
+      const responseMapping = Object.fromEntries(
+        RESPONSE_MAPPING_FIELDS
+          .map(({ key }) => [key, apiConfig.response_mapping?.[key]?.trim()])
+          .filter(([, path]) => path)
+      );
+      const invalidRule = RESPONSE_MAPPING_FIELDS.find(({ key }) => responseMapping[key] && validatePath(responseMapping[key]));
+      if (invalidRule) {
+        toast.error(`Invalid response mapping for ${invalidRule.label}: ${validatePath(responseMapping[invalidRule.key])}`);
+        setSaving(false);
+        return;
+      }
+
+      const bodyTemplate = apiConfig.body_template?.trim();
+      const headersTemplate = apiConfig.headers_template?.trim();
+      const templateError = (bodyTemplate && validateRequestTemplate(bodyTemplate, 'body', variableNames))
+        || (headersTemplate && validateRequestTemplate(headersTemplate, 'headers', variableNames));
+      if (templateError) {
+        toast.error(`Invalid request template: ${templateError}`);
+        setSaving(false);
+        return;
+      }
       
       const { data: user } = await supabase.auth.getUser();
       if (!user?.user?.id) {
@@ -119,15 +205,26 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
       const workflowData = {
         ...data,
         worker_id: workerId.trim(),
-        api_auth_token: apiAuthToken.trim().startsWith('Bearer ') ? apiAuthToken.trim() : `Bearer ${apiAuthToken.trim()}`,
+        // Webhooks get the header exactly as entered, the others take a bearer token
+        api_auth_token: apiConfig.provider === 'webhook' || !apiAuthToken.trim() || apiAuthToken.trim().startsWith('Bearer ')
+          ? apiAuthToken.trim()
+          : `Bearer ${apiAuthToken.trim()}`,
         variables: variables.map(v => ({
           name: v.name.trim(),
-          value: v.value.trim()
+          value: v.value.trim(),
+          ...(v.label?.trim() && { label: v.label.trim() }),
+          ...(v.required && { required: true }),
+          ...(v.type && v.type !== 'text' && { type: v.type }),
+          ...(v.type === 'select' && { options: v.options || [] })
         })),
         api_config: {
-          method: 'post',
-          url: 'https://api.mindstudio.ai/developer/v2/workers/run',
-          content_type: 'application/json'
+          provider: apiConfig.provider,
+          method: apiConfig.method,
+          url: apiConfig.url.trim(),
+          content_type: apiConfig.content_type,
+          ...(Object.keys(responseMapping).length > 0 && { response_mapping: responseMapping }),
+          ...(bodyTemplate && { body_template: bodyTemplate }),
+          ...(headersTemplate && { headers_template: headersTemplate })
         },
         created_by: user.user.id
       };
@@ -143,12 +240,17 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
               assignment_rules: workflowData.assignment_rules,
               approval_levels: workflowData.approval_levels,
               worker_id: workflowData.worker_id,
-              api_auth_token: workflowData.api_auth_token,
+              // Left empty, the saved token stays unless the endpoint changed
+              ...((workflowData.api_auth_token || !canKeepSavedToken) && {
+                api_auth_token: workflowData.api_auth_token || null
+              }),
               api_config: workflowData.api_config,
               variables: workflowData.variables,
               created_by: workflowData.created_by,
               supports_documents: Boolean(supportsDocuments),
-              supports_images: Boolean(supportsImages)
+              supports_images: Boolean(supportsImages),
+              context_policy: contextPolicy,
+              retry_policy: retryPolicy
             })
             .eq('id', workflow.id)
         : await supabase
@@ -166,7 +268,9 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
               variables: workflowData.variables,
               created_by: workflowData.created_by,
               supports_documents: Boolean(supportsDocuments),
-              supports_images: Boolean(supportsImages)
+              supports_images: Boolean(supportsImages),
+              context_policy: contextPolicy,
+              retry_policy: retryPolicy
             }]);
 
       if (error) {
@@ -185,18 +289,39 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
   };
 
   const handleAddVariable = () => {
-    if (newVariable.name && newVariable.value) {
-      setVariables(prev => {
-        const newVars = [...prev];
-        newVars.push({
-          name: newVariable.name.trim(),
-          value: newVariable.value.trim()
-        });
-        return newVars;
-      });
-      setNewVariable({ name: '', value: '' });
-      setShowAddVariable(false);
+    const name = newVariable.name.trim();
+    if (!name) return;
+    if (variables.some(v => v.name === name)) {
+      toast.error(`A variable named "${name}" already exists`);
+      return;
     }
+
+    const options = newVariable.type === 'select'
+      ? newVariableOptions.split(',').map(option => option.trim()).filter(Boolean)
+      : undefined;
+    if (options && options.length === 0) {
+      toast.error('Select lists need at least one option');
+      return;
+    }
+
+    setVariables(prev => [
+      ...prev,
+      {
+        name,
+        value: newVariable.value.trim(),
+        label: newVariable.label?.trim() || undefined,
+        required: newVariable.required,
+        type: newVariable.type,
+        options
+      }
+    ]);
+    closeAddVariable();
+  };
+
+  const closeAddVariable = () => {
+    setShowAddVariable(false);
+    setNewVariable(EMPTY_VARIABLE);
+    setNewVariableOptions('');
   };
 
   const handleRemoveVariable = (index: number) => {
@@ -205,12 +330,12 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
   };
 
   const handleTestApi = async () => {
-    if (!workerId) {
-      toast.error('Worker ID is required');
+    if (isWorkerIdMissing) {
+      toast.error(`${adapter.workerIdLabel} is required`);
       return;
     }
 
-    if (!apiAuthToken) {
+    if (isAuthTokenMissing) {
       toast.error('Authorization token is required');
       return;
     }
@@ -218,30 +343,18 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
     try {
       setTestingApi(true);
       
-      if (!workerId) {
-        toast.error('Worker ID is required');
-        return;
-      }
-
-      if (!apiAuthToken) {
-        toast.error('Authorization token is required');
-        return;
-      }
-
-      await testApi({
+      const result = await testApi({
         workerId,
         apiAuthToken,
-        apiConfig: {
-          method: 'post',
-          url: 'https://api.mindstudio.ai/developer/v2/workers/run',
-          content_type: 'application/json',
-        },
+        apiConfig,
+        retryPolicy,
         variables: {
           ...Object.fromEntries(variables.map(v => [v.name, v.value])),
           workflow: watch('name') || ''
         },
         workflowId: workflow?.id
       });
+      setSampleResponse(JSON.stringify(result.data.raw, null, 2));
       toast.success('API test successful');
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'API test failed');
@@ -286,6 +399,12 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
             >
               Variables
             </button>
+            <button
+              onClick={() => setActiveTab('response')}
+              className={`py-2 px-4 ${activeTab === 'response' ? 'text-white border-b-2 border-white' : 'text-[#757575]'}`}
+            >
+              Response Mapping
+            </button>
           </div>
 
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -318,22 +437,24 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-white mb-2">
-                    Worker ID
-                  </label>
-                  <input
-                    required
-                    type="text"
-                    value={workerId}
-                    onChange={(e) => setWorkerId(e.target.value)}
-                    className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
-                    placeholder="Enter worker ID"
-                  />
-                  {!workerId?.trim() && (
-                    <p className="mt-1 text-sm text-red-500">Worker ID is required</p>
-                  )}
-                </div>
+                {adapter.workerIdLabel && (
+                  <div>
+                    <label className="block text-sm font-medium text-white mb-2">
+                      {adapter.workerIdLabel}
+                    </label>
+                    <input
+                      required
+                      type="text"
+                      value={workerId}
+                      onChange={(e) => setWorkerId(e.target.value)}
+                      className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      placeholder={`Enter ${adapter.workerIdLabel.toLowerCase()}`}
+                    />
+                    {isWorkerIdMissing && (
+                      <p className="mt-1 text-sm text-red-500">{adapter.workerIdLabel} is required</p>
+                    )}
+                  </div>
+                )}
 
                 <div className="space-y-2">
                   <div className="flex items-center space-x-4">
@@ -376,28 +497,99 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                     </p>
                   )}
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Conversation History
+                  </label>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Strategy</label>
+                      <select
+                        value={contextPolicy.strategy}
+                        onChange={(e) => setContextPolicy(prev => ({
+                          ...prev,
+                          strategy: e.target.value as ContextPolicy['strategy']
+                        }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      >
+                        <option value="last_turns">Last N turns</option>
+                        <option value="char_budget">Character budget</option>
+                        <option value="summary">Summarize older turns</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Max turns</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={contextPolicy.max_turns}
+                        disabled={contextPolicy.strategy === 'char_budget'}
+                        onChange={(e) => setContextPolicy(prev => ({ ...prev, max_turns: Number(e.target.value) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC] disabled:opacity-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Max characters</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={contextPolicy.max_chars}
+                        disabled={contextPolicy.strategy === 'last_turns'}
+                        onChange={(e) => setContextPolicy(prev => ({ ...prev, max_chars: Number(e.target.value) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC] disabled:opacity-50"
+                      />
+                    </div>
+                  </div>
+                  <p className="mt-1 text-sm text-[#757575]">
+                    Controls how much of the earlier conversation is sent to the worker as the <code>history</code> variable
+                  </p>
+                </div>
               </div>
             )}
 
             {/* API Configuration Tab */}
             {activeTab === 'api' && (
               <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Provider
+                  </label>
+                  <select
+                    value={apiConfig.provider}
+                    onChange={(e) => setApiConfig(resolveApiConfig({
+                      provider: e.target.value as ApiProvider,
+                      response_mapping: apiConfig.response_mapping,
+                      body_template: apiConfig.body_template,
+                      headers_template: apiConfig.headers_template
+                    }))}
+                    className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                  >
+                    {Object.entries(PROVIDER_ADAPTERS).map(([provider, { label }]) => (
+                      <option key={provider} value={provider}>{label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-sm text-[#757575]">Decides the request body, authentication and where the answer is read from</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-white mb-2">
                     Authorization
                   </label>
                   <input
-                    required
+                    required={isAuthTokenMissing}
                     type="text"
                     value={apiAuthToken}
                     onChange={(e) => setApiAuthToken(e.target.value)}
                     className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
-                    placeholder="Bearer"
+                    placeholder={canKeepSavedToken
+                      ? 'Saved; enter a new token to replace it'
+                      : apiConfig.provider === 'webhook' ? 'Optional, sent as the Authorization header' : 'Bearer'}
                   />
-                  {!apiAuthToken?.trim() && (
+                  {isAuthTokenMissing && (
                     <p className="mt-1 text-sm text-red-500">Authorization token is required</p>
                   )}
-                  <p className="mt-1 text-sm text-[#757575]">Private key in header</p>
+                  <p className="mt-1 text-sm text-[#757575]">Private key in header. It is kept on the server and never shown again.</p>
                 </div>
 
                 <div>
@@ -416,12 +608,23 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                   <label className="block text-sm font-medium text-white mb-2">
                     API Method
                   </label>
-                  <input
-                    type="text"
-                    value="post"
-                    readOnly
-                    className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D]"
-                  />
+                  {apiConfig.provider === 'webhook' ? (
+                    <select
+                      value={apiConfig.method}
+                      onChange={(e) => setApiConfig({ ...apiConfig, method: e.target.value })}
+                      className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                    >
+                      <option value="post">post</option>
+                      <option value="put">put</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={apiConfig.method}
+                      readOnly
+                      className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D]"
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -429,11 +632,95 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                     URL
                   </label>
                   <input
-                    type="text"
-                    value="https://api.mindstudio.ai/developer/v2/workers/run"
-                    readOnly
-                    className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D]"
+                    required
+                    type="url"
+                    value={apiConfig.url}
+                    onChange={(e) => setApiConfig({ ...apiConfig, url: e.target.value })}
+                    className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                    placeholder="https://"
                   />
+                  {!apiConfig.url.trim() && (
+                    <p className="mt-1 text-sm text-red-500">URL is required</p>
+                  )}
+                </div>
+
+                <RequestTemplateEditor
+                  bodyTemplate={apiConfig.body_template ?? ''}
+                  headersTemplate={apiConfig.headers_template ?? ''}
+                  onChange={(changes) => setApiConfig(prev => ({ ...prev, ...changes }))}
+                  defaultBodyTemplate={JSON.stringify(adapter.buildBody(
+                    adapter.workerIdLabel ? '{{workerId}}' : '',
+                    Object.fromEntries(variables.map(v => [v.name, `{{${v.name}}}`])),
+                    false
+                  ), null, 2)}
+                  variableNames={variableNames}
+                  sampleValues={sampleValues}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Reliability
+                  </label>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Timeout (seconds)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={retryPolicy.timeout_ms / 1000}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, timeout_ms: Math.round(Number(e.target.value) * 1000) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Max retries</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={1}
+                        value={retryPolicy.max_retries}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, max_retries: Math.round(Number(e.target.value)) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">First retry after (seconds)</label>
+                      <input
+                        type="number"
+                        min={0} step={0.5}
+                        value={retryPolicy.base_delay_ms / 1000}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, base_delay_ms: Math.round(Number(e.target.value) * 1000) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Pause after failures</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={retryPolicy.breaker_threshold}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, breaker_threshold: Math.round(Number(e.target.value)) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-[#757575] mb-1">Pause for (seconds)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={retryPolicy.breaker_cooldown_ms / 1000}
+                        onChange={(e) => setRetryPolicy(prev => ({ ...prev, breaker_cooldown_ms: Math.round(Number(e.target.value) * 1000) }))}
+                        className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                      />
+                    </div>
+                  </div>
+                  <p className="mt-1 text-sm text-[#757575]">
+                    Timeouts, network errors and 408, 429 and 5xx replies are retried with growing, jittered delays
+                    (or as long as <code>Retry-After</code> asks). After that many failed requests in a row, new requests
+                    fail straight away for the pause; 0 turns this off. Retried and failed requests are recorded in the workflow's logs.
+                  </p>
                 </div>
 
                 <button
@@ -454,6 +741,17 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
               </div>
             )}
 
+            {/* Response Mapping Tab */}
+            {activeTab === 'response' && (
+              <ResponseMappingEditor
+                mapping={apiConfig.response_mapping ?? {}}
+                onChange={(responseMapping) => setApiConfig(prev => ({ ...prev, response_mapping: responseMapping }))}
+                sampleResponse={sampleResponse}
+                onSampleResponseChange={setSampleResponse}
+                adapter={adapter}
+              />
+            )}
+
             {/* Variables Tab */}
             {activeTab === 'variables' && (
               <div className="space-y-6">
@@ -468,7 +766,18 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                     {variables.map((variable, index) => (
                       <div key={index} className="flex items-center space-x-2">
                         <div className="flex-1">
-                          <label className="block text-sm text-[#757575] mb-1">{variable.name}</label>
+                          <label className="flex items-center gap-2 text-sm text-[#757575] mb-1">
+                            <span>{variable.name}</span>
+                            {variable.label && <span className="text-[#E0E0E0]">{variable.label}</span>}
+                            {variable.type && variable.type !== 'text' && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-[#2C2C2C]">
+                                {VARIABLE_TYPES.find(t => t.value === variable.type)?.label}
+                              </span>
+                            )}
+                            {variable.required && (
+                              <span className="px-1.5 py-0.5 text-xs rounded bg-[#2C2C2C] text-[#BB86FC]">Required</span>
+                            )}
+                          </label>
                           <input
                             type="text"
                             value={variable.value}
@@ -513,13 +822,7 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                     Body Preview
                   </label>
                   <pre className="w-full p-4 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] font-mono text-sm">
-{JSON.stringify({
-  "workerId": workerId,
-  "variables": Object.fromEntries(
-    variables.map(v => [v.name, v.value])
-  ),
-  "workflow": watch('name') || ""
-}, null, 2)}
+{renderBodyPreview()}
                   </pre>
                 </div>
               </div>
@@ -538,7 +841,7 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                 disabled={saving}
                 className="px-4 py-2 bg-[#4CAF50] text-white rounded-lg hover:bg-opacity-90 transition-colors disabled:opacity-50 flex items-center"
                 onClick={() => {
-                  if (!workerId?.trim() || !apiAuthToken?.trim() || variables.length === 0) {
+                  if (isWorkerIdMissing || isAuthTokenMissing || !apiConfig.url.trim() || variables.length === 0) {
                     toast.error('Please fill in all required fields');
                     return;
                   }
@@ -578,27 +881,77 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
                 placeholder="Enter variable name"
               />
             </div>
-            
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Label
+              </label>
+              <input
+                type="text"
+                value={newVariable.label}
+                onChange={(e) => setNewVariable({ ...newVariable, label: e.target.value })}
+                className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                placeholder="Shown above the input in chat (defaults to the name)"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Input Type
+              </label>
+              <select
+                value={newVariable.type}
+                onChange={(e) => setNewVariable({ ...newVariable, type: e.target.value as WorkflowVariable['type'] })}
+                className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+              >
+                {VARIABLE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {newVariable.type === 'select' && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  Options
+                </label>
+                <input
+                  type="text"
+                  value={newVariableOptions}
+                  onChange={(e) => setNewVariableOptions(e.target.value)}
+                  className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
+                  placeholder="Comma-separated, e.g. Formal, Casual"
+                />
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-white mb-2">
-                Variable Value
+                Default Value
               </label>
               <input
                 type="text"
                 value={newVariable.value}
                 onChange={(e) => setNewVariable({ ...newVariable, value: e.target.value })}
                 className="w-full px-4 py-2 bg-[#1A1B1E] text-white rounded-lg border border-[#2D2D2D] focus:outline-none focus:ring-2 focus:ring-[#BB86FC]"
-                placeholder="Enter variable value"
+                placeholder="Optional"
               />
             </div>
+
+            <label className="flex items-center space-x-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={newVariable.required}
+                onChange={(e) => setNewVariable({ ...newVariable, required: e.target.checked })}
+                className="rounded border-[#2D2D2D] bg-[#1A1B1E] text-[#BB86FC] focus:ring-[#BB86FC]"
+              />
+              <span>Required before sending</span>
+            </label>
             
             <div className="flex justify-end space-x-4 pt-4">
               <button
                 type="button"
-                onClick={() => {
-                  setShowAddVariable(false);
-                  setNewVariable({ name: '', value: '' });
-                }}
+                onClick={closeAddVariable}
                 className="px-4 py-2 text-white hover:text-[#BB86FC] transition-colors"
               >
                 Cancel
@@ -606,7 +959,7 @@ export function WorkflowForm({ workflow, onClose, onSave }: WorkflowFormProps) {
               <button
                 type="button"
                 onClick={handleAddVariable}
-                disabled={!newVariable.name || !newVariable.value}
+                disabled={!newVariable.name.trim()}
                 className="px-4 py-2 bg-[#4CAF50] text-white rounded-lg hover:bg-opacity-90 transition-colors disabled:opacity-50"
               >
                 Add Variable
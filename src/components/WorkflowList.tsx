@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Search, Settings2, Trash2, RefreshCw, Info, AlertCircle, GripVertical } from 'lucide-react';
+import { Plus, Search, Settings2, Trash2, RefreshCw, Info, AlertCircle, GripVertical, BarChart3 } from 'lucide-react';
 import { workflowSchema } from '../lib/types';
+import { fetchWorkflowApiConfig } from '../lib/workflows';
+import type { ApiConfig, ContextPolicy, RetryPolicy } from '../lib/types';
 import toast from 'react-hot-toast';
 import { WorkflowForm } from './WorkflowForm';
 import { WorkflowLogs } from './WorkflowLogs';
+import { WorkflowFeedbackReport } from './WorkflowFeedbackReport';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 
 interface Workflow {
@@ -17,9 +20,12 @@ interface Workflow {
   order: number;
   supports_documents: boolean;
   worker_id: string;
-  api_auth_token: string;
+  has_api_auth_token: boolean;
   variables: any[];
   allowed_file_types: string[];
+  context_policy?: ContextPolicy;
+  retry_policy?: RetryPolicy;
+  api_config?: ApiConfig | null;
 }
 
 export function WorkflowList() {
@@ -30,6 +36,7 @@ export function WorkflowList() {
   const [showWorkflowForm, setShowWorkflowForm] = useState(false);
   const [selectedWorkflow, setSelectedWorkflow] = useState<Workflow | null>(null);
   const [showLogs, setShowLogs] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'checking' | 'connected' | 'error'>('checking');
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const itemsPerPage = 10;
@@ -91,7 +98,7 @@ export function WorkflowList() {
       // Query without user filtering to test RLS bypass
       const { data, error } = await supabase
         .from('workflows')
-        .select('id, name, description, status, created_at, updated_at, order, supports_documents, supports_images, worker_id, api_auth_token, variables')
+        .select('id, name, description, status, created_at, updated_at, order, supports_documents, supports_images, worker_id, has_api_auth_token, variables, context_policy, retry_policy')
         .eq('status', 'active')
         .order('order', { ascending: true });
       
@@ -115,6 +122,18 @@ export function WorkflowList() {
     }
   }
 
+  const openWorkflowForm = async (workflow: Workflow) => {
+    try {
+      // The list does not read api_config; the form needs all of it
+      const apiConfig = await fetchWorkflowApiConfig(workflow.id);
+      setSelectedWorkflow({ ...workflow, api_config: apiConfig });
+      setShowWorkflowForm(true);
+    } catch (error) {
+      console.error('Error loading workflow settings:', error);
+      toast.error('Failed to load the workflow settings');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active':
@@ -271,10 +290,7 @@ export function WorkflowList() {
                             </div>
                             <div className="flex space-x-2">
                               <button
-                                onClick={() => {
-                                  setSelectedWorkflow(workflow);
-                                  setShowWorkflowForm(true);
-                                }}
+                                onClick={() => openWorkflowForm(workflow)}
                                 className="text-[#BB86FC] hover:text-[#E0E0E0] transition-colors"
                               >
                                 <Settings2 className="w-5 h-5" />
@@ -287,6 +303,15 @@ export function WorkflowList() {
                               >
                                 <Info className="w-5 h-5" />
                               </button>
+                              <button
+                                onClick={() => setShowReport(showReport === workflow.id ? null : workflow.id)}
+                                className={`text-[#BB86FC] hover:text-[#E0E0E0] transition-colors ${
+                                  showReport === workflow.id ? 'text-[#E0E0E0]' : ''
+                                }`}
+                                title="Answer quality report"
+                              >
+                                <BarChart3 className="w-5 h-5" />
+                              </button>
                               <button
                                 onClick={async () => {
                                   if (confirm('Are you sure you want to delete this workflow?')) {
@@ -314,6 +339,11 @@ export function WorkflowList() {
                               <WorkflowLogs workflowId={workflow.id} />
                             </div>
                           )}
+                          {showReport === workflow.id && (
+                            <div className="mt-4 border-t border-[#2D2D2D] pt-4">
+                              <WorkflowFeedbackReport workflowId={workflow.id} />
+                            </div>
+                          )}
                         </div>
                       )}
                     </Draggable>
@@ -17,7 +17,7 @@ interface Workflow {
   order: number;
   supports_documents: boolean;
   worker_id: string;
-  api_auth_token: string;
+  has_api_auth_token: boolean;
   variables: any[];
 }
 
@@ -87,7 +87,7 @@ export function WorkflowList() {
       
       const { data, error } = await supabase
         .from('workflows')
-        .select('id, name, description, status, created_at, updated_at, order, supports_documents, worker_id, api_auth_token, variables')
+        .select('id, name, description, status, created_at, updated_at, order, supports_documents, worker_id, has_api_auth_token, variables')
         .eq('created_by', user.id)
         .order('order', { ascending: true })
         .ilike('name', `%${searchQuery}%`);
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { getVariableLabel } from '../lib/variables';
+import type { WorkflowVariable } from '../lib/types';
+
+interface WorkflowVariableInputsProps {
+  variables: WorkflowVariable[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+export function WorkflowVariableInputs({ variables, values, onChange, disabled }: WorkflowVariableInputsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (variables.length === 0) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-[#2C2C2C] text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-[#BB86FC] disabled:opacity-50';
+  const setValue = (name: string, value: string) => onChange({ ...values, [name]: value });
+
+  return (
+    <div className="mb-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center text-sm text-[#757575] hover:text-[#E0E0E0] transition-colors"
+      >
+        <SlidersHorizontal className="w-4 h-4 mr-2" />
+        Workflow inputs ({variables.length})
+        {isOpen ? <ChevronDown className="w-4 h-4 ml-1" /> : <ChevronUp className="w-4 h-4 ml-1" />}
+      </button>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+          {variables.map(variable => (
+            <div key={variable.name} className={variable.type === 'textarea' ? 'md:col-span-2' : ''}>
+              <label className="block text-xs text-[#757575] mb-1">
+                {getVariableLabel(variable)}
+                {variable.required && <span className="text-red-400 ml-0.5">*</span>}
+              </label>
+              {variable.type === 'select' ? (
+                <select
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  disabled={disabled}
+                  className={inputClassName}
+                >
+                  {/* Without a choice, a required select shows a placeholder rather than an option it does not hold */}
+                  {variable.required
+                    ? <option value="" disabled>Select…</option>
+                    : <option value="">—</option>}
+                  {(variable.options || []).map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : variable.type === 'textarea' ? (
+                <textarea
+                  rows={2}
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  disabled={disabled}
+                  className={`${inputClassName} resize-y`}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={values[variable.name] ?? ''}
+                  onChange={(e) => setValue(variable.name, e.target.value)}
+                  disabled={disabled}
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
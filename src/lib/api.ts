@@ -1,40 +1,230 @@
 import { supabase } from './supabase';
-import toast from 'react-hot-toast';
-import { handleApiError, logError } from './error-handling';
+import { logError } from './error-handling';
+import { extractSources } from './sources';
+import { applyResponseMapping } from './response-mapping';
+import { fetchWithRetry } from './resilience';
+import type { CircuitReport, IdleTimer } from './resilience';
+import type { ResponseDetails } from './response-mapping';
+import type { ApiConfig, ApiProvider, MessageSource, RetryPolicy } from './types';
 
-interface ApiConfig {
-  method: string;
-  url: string;
-  content_type: string;
-}
+type Variables = Record<string, string | null>;
+
+// Workers are called through this Edge Function, which holds their tokens
+const WORKER_PROXY_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/worker-proxy`;
 
-interface ApiResponse {
-  success: boolean;
-  data: any;
+interface WorkerRequestParams {
+  // Missing or partial configs fall back to the provider's defaults
+  apiConfig?: ApiConfig | null;
+  // Timeout, retries and circuit breaker; missing settings use the defaults
+  retryPolicy?: Partial<RetryPolicy> | null;
+  variables: Variables;
 }
 
-interface TestApiParams {
+interface TestApiParams extends WorkerRequestParams {
+  // The form's unsaved settings; an empty token tests with the saved one
   workerId: string;
   apiAuthToken: string;
-  apiConfig: ApiConfig;
-  variables: Record<string, string>;
   workflowId?: string;
 }
 
-interface ApiError {
-  message: string;
+interface StreamApiParams extends WorkerRequestParams {
+  workflowId: string;
+  // Called with the full text received so far every time new output arrives
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+class ApiError extends Error {
   status?: number;
   details?: unknown;
+
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
 }
 
-export async function testApi({ workerId, apiAuthToken, apiConfig, variables, workflowId }: TestApiParams) {
-  if (!workerId || workerId === 'your-worker-id') {
-    throw new ApiError('Worker ID is not configured');
+function extractResponseText(data: any): string | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  return data.result || data.responseText || data.response || data.message;
+}
+
+function extractErrorMessage(data: any): string | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  return data.message || data.error?.message || (typeof data.error === 'string' ? data.error : undefined);
+}
+
+function pickText(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Knows how to talk to one kind of worker: where to send the request, what
+ * the body looks like and where the answer is in the reply. The worker proxy
+ * builds the actual requests and mirrors `defaults` and `buildBody`.
+ */
+export interface ProviderAdapter {
+  label: string;
+  defaults: Omit<ApiConfig, 'provider'>;
+  // What the workflow's `worker_id` holds, or null when the provider has none
+  workerIdLabel: string | null;
+  requiresToken: boolean;
+  buildBody: (workerId: string, variables: Variables, stream: boolean) => unknown;
+  // The complete answer in a JSON reply or event
+  extractText: (data: any) => string | undefined;
+  // The increment carried by one streamed event
+  extractDelta: (data: any) => string | undefined;
+}
+
+export const PROVIDER_ADAPTERS: Record<ApiProvider, ProviderAdapter> = {
+  mindstudio: {
+    label: 'MindStudio',
+    defaults: {
+      method: 'post',
+      url: 'https://api.mindstudio.ai/developer/v2/workers/run',
+      content_type: 'application/json'
+    },
+    workerIdLabel: 'Worker ID',
+    requiresToken: true,
+    buildBody: (workerId, variables) => ({ workerId, variables }),
+    extractText: extractResponseText,
+    extractDelta: (data) => pickText(data?.delta, data?.chunk, data?.text)
+  },
+  openai: {
+    label: 'OpenAI-compatible chat completions',
+    defaults: {
+      method: 'post',
+      url: 'https://api.openai.com/v1/chat/completions',
+      content_type: 'application/json'
+    },
+    workerIdLabel: 'Model',
+    requiresToken: true,
+    // Chat models only see messages, so the other variables become context
+    buildBody: (model, { request, history, ...rest }, stream) => {
+      const details = Object.entries(rest)
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+
+      return {
+        model,
+        stream,
+        messages: [
+          ...(details ? [{ role: 'system', content: `Request details:\n${details}` }] : []),
+          ...(history ? [{ role: 'system', content: `Conversation so far:\n${history}` }] : []),
+          { role: 'user', content: request ?? '' }
+        ]
+      };
+    },
+    extractText: (data) => pickText(data?.choices?.[0]?.message?.content),
+    extractDelta: (data) => pickText(data?.choices?.[0]?.delta?.content)
+  },
+  webhook: {
+    label: 'Generic JSON webhook',
+    defaults: {
+      method: 'post',
+      url: '',
+      content_type: 'application/json'
+    },
+    workerIdLabel: null,
+    requiresToken: false,
+    buildBody: (_workerId, variables) => variables,
+    extractText: (data) => extractResponseText(data) ?? pickText(data?.output, data?.answer, data?.text),
+    extractDelta: (data) => pickText(data?.delta, data?.chunk)
+  }
+};
+
+export type ResolvedApiConfig = ApiConfig & { provider: ApiProvider };
+
+/** Fills in whatever a stored `api_config` leaves out from its provider's defaults. */
+export function resolveApiConfig(apiConfig?: Partial<ApiConfig> | null): ResolvedApiConfig {
+  const provider = apiConfig?.provider ?? 'mindstudio';
+  return {
+    ...PROVIDER_ADAPTERS[provider].defaults,
+    ...apiConfig,
+    url: apiConfig?.url || PROVIDER_ADAPTERS[provider].defaults.url,
+    provider
+  };
+}
+
+/**
+ * Reads a parsed reply, preferring the workflow's response mapping and
+ * falling back to the provider's defaults for anything it does not cover.
+ */
+function readReply(adapter: ProviderAdapter, apiConfig: ApiConfig, data: any) {
+  const { text, sources, ...details } = applyResponseMapping(data, apiConfig.response_mapping);
+  return {
+    text: text ?? adapter.extractText(data),
+    sources: sources ?? extractSources(data),
+    details: details as ResponseDetails
+  };
+}
+
+// The token is checked by the proxy, which is the only place that knows a saved one
+function validateCredentials(adapter: ProviderAdapter, apiConfig: ApiConfig, workerId: string) {
+  if (!apiConfig.url) {
+    throw new ApiError('API URL is not configured');
   }
 
-  if (!apiAuthToken || apiAuthToken === 'your-auth-token') {
-    throw new ApiError('API authentication token is not configured');
+  if (adapter.workerIdLabel && (!workerId || workerId === 'your-worker-id')) {
+    throw new ApiError(`${adapter.workerIdLabel} is not configured`);
   }
+}
+
+/**
+ * Request options for the worker proxy. The proxy checks the user may run
+ * the workflow, adds its token and passes the worker's reply straight back.
+ */
+async function buildProxyRequest(body: object): Promise<RequestInit> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new ApiError('User not authenticated');
+  }
+
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream, application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Writes a failed request to `workflow_logs`. This is the only place a
+ * failure is logged; `fetchWithRetry` only logs the attempts it retries.
+ */
+async function logWorkerFailure(workflowId: string | undefined, error: unknown) {
+  if (!workflowId) return;
+
+  const { error: insertError } = await supabase.from('workflow_logs').insert({
+    workflow_id: workflowId,
+    level: 'error',
+    message: error instanceof Error 
+      ? error.message 
+      : 'Failed to connect to the worker API',
+    details: {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof ApiError && { status: error.status, response: error.details }),
+      stack: error instanceof Error ? error.stack : undefined
+    }
+  });
+  if (insertError) console.error('Failed to log worker failure:', insertError);
+}
+
+export async function testApi({ workerId, apiAuthToken, apiConfig: storedConfig, retryPolicy, variables, workflowId }: TestApiParams) {
+  const apiConfig = resolveApiConfig(storedConfig);
+  const adapter = PROVIDER_ADAPTERS[apiConfig.provider];
+  validateCredentials(adapter, apiConfig, workerId);
 
   try {
     // If this is an API test, clear previous test logs
@@ -46,28 +236,45 @@ export async function testApi({ workerId, apiAuthToken, apiConfig, variables, wo
         .eq('message', 'API request successful');
     }
 
-    const response = await fetch(apiConfig.url, {
-      method: apiConfig.method,
-      headers: {
-        'Content-Type': apiConfig.content_type,
-        'Authorization': apiAuthToken.startsWith('Bearer ') ? apiAuthToken : `Bearer ${apiAuthToken}`,
-      },
-      body: JSON.stringify({
-        workerId,
-        variables
-      }),
+    const request = await buildProxyRequest({
+      workflowId,
+      variables,
+      stream: false,
+      config: { worker_id: workerId, api_auth_token: apiAuthToken, api_config: apiConfig }
+    });
+    const { response, idleTimer, circuit } = await fetchWithRetry(WORKER_PROXY_URL, request, {
+      policy: retryPolicy,
+      workflowId,
+      useCircuitBreaker: false
     });
 
-    const data = await response.json();
+    let data: any;
+    try {
+      data = await response.json();
+      circuit.recordSuccess();
+    } catch (error) {
+      circuit.recordFailure();
+      throw error;
+    } finally {
+      idleTimer.clear();
+    }
 
-    const responseText = data.result || data.responseText || data.response || data.message;
+    const reply = readReply(adapter, apiConfig, data);
 
-    // Only log if it's an API test or if there's an error
-    if (workflowId && (!response.ok || variables.workflow === undefined)) {
+    if (!response.ok) {
+      throw new ApiError(
+        extractErrorMessage(data) || `API request failed: ${response.statusText}`,
+        response.status,
+        data
+      );
+    }
+
+    // Successful API tests are logged; failures are logged below
+    if (workflowId && variables.workflow === undefined) {
       await supabase.from('workflow_logs').insert({
         workflow_id: workflowId,
-        level: response.ok ? 'info' : 'error',
-        message: response.ok ? 'API request successful' : `API request failed: ${response.statusText}`,
+        level: 'info',
+        message: 'API request successful',
         details: {
           status: response.status,
           response: data,
@@ -75,16 +282,14 @@ export async function testApi({ workerId, apiAuthToken, apiConfig, variables, wo
       });
     }
 
-    if (!response.ok) {
-      throw new ApiError(
-        data.message || `API request failed: ${response.statusText}`
-      );
-    }
-
     return {
       success: true,
       data: {
-        response: responseText || data.result || 'No response received'
+        response: reply.text || 'No response received',
+        sources: reply.sources ?? [],
+        details: reply.details,
+        // The untouched reply, for previewing response mappings
+        raw: data
       }
     };
   } catch (error) {
@@ -92,26 +297,214 @@ export async function testApi({ workerId, apiAuthToken, apiConfig, variables, wo
       context: { 
         workerId, 
         url: apiConfig.url,
-        method: apiConfig.method 
+        method: apiConfig.method,
+        provider: apiConfig.provider
       }, 
       error 
     });
     
-    // Only log errors from workflow execution, not API tests
-    if (workflowId && variables.workflow !== undefined) {
-      await supabase.from('workflow_logs').insert({
-        workflow_id: workflowId,
-        level: 'error',
-        message: error instanceof Error 
-          ? error.message 
-          : 'Failed to connect to MindStudio API',
-        details: {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined
+    await logWorkerFailure(workflowId, error);
+    
+    throw error;
+  }
+}
+
+const FINAL_EVENT_NAMES = ['done', 'final', 'complete', 'completed', 'result', 'end'];
+
+// Whether an event says it carries the finished answer, by its SSE name or a field
+function isFinalEvent(eventName: string | undefined, data: any): boolean {
+  const name = eventName ?? data.event ?? data.type ?? data.status;
+  return data.done === true || data.final === true
+    || (typeof name === 'string' && FINAL_EVENT_NAMES.includes(name.toLowerCase()));
+}
+
+/**
+ * Applies one server-sent event payload to the text received so far.
+ * Incremental payloads (as the adapter reads them, or plain text) are
+ * appended. A complete answer only replaces what we have when the event is
+ * marked as final or the workflow's response mapping picks its text out;
+ * other events (status, progress, logs) often carry a `message` of their own.
+ */
+function applyStreamEvent(
+  adapter: ProviderAdapter,
+  apiConfig: ApiConfig,
+  current: string,
+  payload: string,
+  eventName?: string
+): string {
+  if (payload === '[DONE]') return current;
+
+  let data: any;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return current + payload;
+  }
+
+  if (typeof data === 'string') return current + data;
+
+  const increment = adapter.extractDelta(data);
+  if (typeof increment === 'string') return current + increment;
+  if (!data || typeof data !== 'object') return current;
+
+  const mapped = applyResponseMapping(data, apiConfig.response_mapping).text;
+  if (typeof mapped === 'string') return mapped;
+  if (!isFinalEvent(eventName, data)) return current;
+
+  const complete = adapter.extractText(data);
+  return typeof complete === 'string' ? complete : current;
+}
+
+/** Sources and mapped fields may arrive in any event, usually the last one. */
+function readEventReply(adapter: ProviderAdapter, apiConfig: ApiConfig, payload: string) {
+  try {
+    return readReply(adapter, apiConfig, JSON.parse(payload));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs the worker and reports its output as it arrives. Works with workers
+ * that answer with server-sent events, chunked plain text or a single JSON
+ * document; the latter is reported once when it has been received in full.
+ * Sources and the fields picked out by the workflow's response mapping are
+ * returned with the final text.
+ */
+export async function streamApi({ apiConfig: storedConfig, retryPolicy, variables, workflowId, onText, signal }: StreamApiParams) {
+  const apiConfig = resolveApiConfig(storedConfig);
+  const adapter = PROVIDER_ADAPTERS[apiConfig.provider];
+  let idleTimer: IdleTimer | undefined;
+  let circuit: CircuitReport | undefined;
+
+  try {
+    const request = await buildProxyRequest({ workflowId, variables, stream: true });
+    const { response, idleTimer: timer, circuit: report } = await fetchWithRetry(WORKER_PROXY_URL, request, {
+      policy: retryPolicy,
+      workflowId,
+      signal
+    });
+    idleTimer = timer;
+    circuit = report;
+
+    const contentType = response.headers.get('content-type') || '';
+
+    if (!response.ok || contentType.includes('application/json') || !response.body) {
+      const data = contentType.includes('application/json')
+        ? await response.json()
+        : { message: await response.text() };
+
+      if (!response.ok) {
+        throw new ApiError(
+          extractErrorMessage(data) || `API request failed: ${response.statusText}`,
+          response.status,
+          data
+        );
+      }
+
+      circuit.recordSuccess();
+      const reply = readReply(adapter, apiConfig, data);
+      const responseText = reply.text || 'No response received';
+      onText(responseText);
+
+      return {
+        success: true,
+        data: {
+          response: responseText,
+          sources: reply.sources ?? [],
+          details: reply.details
         }
-      });
+      };
     }
-    
+
+    const isEventStream = contentType.includes('text/event-stream');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let sources: MessageSource[] = [];
+    let details: ResponseDetails = {};
+
+    const flushEvents = (final: boolean) => {
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = final ? '' : events.pop() || '';
+
+      for (const event of events) {
+        const lines = event.split(/\r?\n/);
+        const payload = lines
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        const eventName = lines.find(line => line.startsWith('event:'))?.slice(6).trim();
+
+        if (payload) {
+          text = applyStreamEvent(adapter, apiConfig, text, payload, eventName);
+
+          const reply = readEventReply(adapter, apiConfig, payload);
+          if (reply) {
+            sources = reply.sources ?? sources;
+            details = { ...details, ...reply.details };
+          }
+        }
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      idleTimer.reset();
+
+      const chunk = decoder.decode(value, { stream: true });
+
+      if (isEventStream) {
+        buffer += chunk;
+        flushEvents(false);
+      } else {
+        text += chunk;
+      }
+
+      onText(text);
+    }
+
+    if (isEventStream) {
+      buffer += decoder.decode();
+      flushEvents(true);
+    } else {
+      text += decoder.decode();
+    }
+
+    // Only now is the worker known to have answered in full
+    circuit.recordSuccess();
+    onText(text);
+
+    return {
+      success: true,
+      data: {
+        response: text || 'No response received',
+        sources,
+        details
+      }
+    };
+  } catch (error) {
+    // Cancellations are recorded by the caller, they are not worker failures
+    if (isAbortError(error)) throw error;
+
+    // Covers a worker that sent its headers and then stalled or broke off
+    circuit?.recordFailure();
+
+    logError({ 
+      context: { 
+        workflowId, 
+        provider: apiConfig.provider,
+        streaming: true
+      }, 
+      error 
+    });
+
+    await logWorkerFailure(workflowId, error);
+
     throw error;
+  } finally {
+    idleTimer?.clear();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import { supabase } from './supabase';
+import type { Attachment, WorkflowConfig } from './types';
+
+export const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt'];
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif'];
+
+export function getFileExtension(fileName: string) {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function isImageFile(file: Pick<File, 'name' | 'type'>) {
+  return file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(getFileExtension(file.name));
+}
+
+/**
+ * Checks a file against the workflow's upload settings. Returns an error
+ * message when the file cannot be attached, or null when it is accepted.
+ */
+export function validateAttachment(file: File, workflow: WorkflowConfig): string | null {
+  const extension = getFileExtension(file.name);
+
+  if (isImageFile(file)) {
+    if (!workflow.supports_images) {
+      return 'Image uploads are not supported for this workflow';
+    }
+    if (!IMAGE_EXTENSIONS.includes(extension)) {
+      return `Unsupported image type: .${extension}`;
+    }
+    return null;
+  }
+
+  if (!workflow.supports_documents) {
+    return 'Document uploads are not supported for this workflow';
+  }
+  if (!DOCUMENT_EXTENSIONS.includes(extension)) {
+    return `Unsupported document type: .${extension}`;
+  }
+  return null;
+}
+
+export async function computeChecksum(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function getAttachmentUrl(attachment: Pick<Attachment, 'bucket' | 'path'>) {
+  return supabase.storage.from(attachment.bucket).getPublicUrl(attachment.path).data.publicUrl;
+}
+
+// supabase-js uploads through fetch, which cannot report upload progress, so
+// files are sent to a signed upload URL with XMLHttpRequest instead.
+async function uploadWithProgress(
+  bucket: string,
+  path: string,
+  file: File,
+  onProgress: (percent: number) => void
+) {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUploadUrl(path);
+
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress((event.loaded / event.total) * 100);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Failed to upload ${file.name}: ${xhr.statusText || xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Network error while uploading ${file.name}`));
+
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Uploads a file to the user's folder in the matching bucket. The returned
+ * attachment is not linked to a message yet; see `saveAttachments`.
+ */
+export async function uploadAttachment(
+  file: File,
+  userId: string,
+  onProgress: (percent: number) => void
+): Promise<Attachment> {
+  const bucket = isImageFile(file) ? 'images' : 'documents';
+  const path = `${userId}/${crypto.randomUUID()}.${getFileExtension(file.name)}`;
+
+  const [checksum] = await Promise.all([
+    computeChecksum(file),
+    uploadWithProgress(bucket, path, file, onProgress),
+  ]);
+
+  return {
+    id: crypto.randomUUID(),
+    file_name: file.name,
+    mime_type: file.type || null,
+    size: file.size,
+    bucket,
+    path,
+    checksum,
+  };
+}
+
+export async function saveAttachments(messageId: string, attachments: Attachment[]) {
+  if (attachments.length === 0) return;
+
+  const { error } = await supabase
+    .from('attachments')
+    .insert(attachments.map(attachment => ({
+      id: attachment.id,
+      message_id: messageId,
+      file_name: attachment.file_name,
+      mime_type: attachment.mime_type,
+      size: attachment.size,
+      bucket: attachment.bucket,
+      path: attachment.path,
+      checksum: attachment.checksum,
+    })));
+
+  if (error) throw error;
+}
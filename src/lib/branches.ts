@@ -0,0 +1,68 @@
+// Messages form a tree through `parent_message_id`: regenerating an answer or
+// editing a question adds a sibling next to the original instead of replacing
+// it. These helpers resolve which branch of that tree is currently shown.
+
+export const ROOT_BRANCH = 'root';
+
+interface BranchNode {
+  id: string;
+  parentId: string | null;
+}
+
+export type BranchSelections = Record<string, string>;
+
+function branchKey(parentId: string | null) {
+  return parentId ?? ROOT_BRANCH;
+}
+
+export function getSiblings<T extends BranchNode>(nodes: T[], node: T): T[] {
+  return nodes.filter(n => n.parentId === node.parentId);
+}
+
+/**
+ * Walks down from the root, at each level following the selected child or,
+ * when nothing was selected, the most recently added one.
+ */
+export function getActiveThread<T extends BranchNode>(nodes: T[], selections: BranchSelections): T[] {
+  const children = new Map<string, T[]>();
+  for (const node of nodes) {
+    const key = branchKey(node.parentId);
+    children.set(key, [...(children.get(key) || []), node]);
+  }
+
+  const thread: T[] = [];
+  const visited = new Set<string>();
+  let key = ROOT_BRANCH;
+
+  while (children.has(key) && !visited.has(key)) {
+    visited.add(key);
+    const siblings = children.get(key)!;
+    const chosen = siblings.find(n => n.id === selections[key]) ?? siblings[siblings.length - 1];
+    thread.push(chosen);
+    key = chosen.id;
+  }
+
+  return thread;
+}
+
+export function getAncestors<T extends BranchNode>(nodes: T[], id: string | null): T[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const ancestors: T[] = [];
+  let current = id ? byId.get(id) : undefined;
+
+  while (current && !ancestors.includes(current)) {
+    ancestors.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return ancestors;
+}
+
+export function selectBranch(selections: BranchSelections, node: BranchNode): BranchSelections {
+  return { ...selections, [branchKey(node.parentId)]: node.id };
+}
+
+/** Selections that make `id` (and everything above it) part of the active thread. */
+export function selectPathTo<T extends BranchNode>(nodes: T[], id: string): BranchSelections {
+  return getAncestors(nodes, id).reduce<BranchSelections>((selections, node) => selectBranch(selections, node), {});
+}
@@ -0,0 +1,80 @@
+import type { ExportFormat } from './export';
+
+export interface SlashCommand {
+  name: string;
+  usage: string;
+  description: string;
+  takesArgument: boolean;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'workflow', usage: '/workflow <name>', description: 'Switch to another workflow', takesArgument: true },
+  { name: 'new', usage: '/new', description: 'Start a new conversation', takesArgument: false },
+  { name: 'export', usage: '/export [markdown|json|pdf]', description: 'Export this conversation', takesArgument: true },
+  { name: 'attach', usage: '/attach', description: 'Attach files to your next message', takesArgument: false },
+  { name: 'template', usage: '/template <name>', description: 'Insert a saved prompt template', takesArgument: true },
+];
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'pdf'];
+
+export interface ParsedCommand {
+  name: string;
+  argument: string;
+}
+
+export interface CommandSuggestion {
+  value: string;
+  label: string;
+  description: string;
+}
+
+/** Returns the command in `input` if it names one of the known slash commands. */
+export function parseSlashCommand(input: string): ParsedCommand | null {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  if (!SLASH_COMMANDS.some(command => command.name === name)) return null;
+
+  return { name, argument: (match[2] ?? '').trim() };
+}
+
+/**
+ * Autocomplete entries for a composer value starting with "/": command names
+ * while the first word is being typed, then the arguments that command takes.
+ */
+export function getCommandSuggestions(
+  input: string,
+  options: { workflowNames: string[]; templateNames: string[] }
+): CommandSuggestion[] {
+  if (!input.startsWith('/') || input.includes('\n')) return [];
+
+  const spaceIndex = input.indexOf(' ');
+  if (spaceIndex === -1) {
+    const typed = input.slice(1).toLowerCase();
+    return SLASH_COMMANDS
+      .filter(command => command.name.startsWith(typed))
+      .map(command => ({
+        value: `/${command.name}${command.takesArgument ? ' ' : ''}`,
+        label: command.usage,
+        description: command.description
+      }));
+  }
+
+  const name = input.slice(1, spaceIndex).toLowerCase();
+  const argument = input.slice(spaceIndex + 1).toLowerCase();
+  const candidates = {
+    workflow: options.workflowNames,
+    export: EXPORT_FORMATS,
+    template: options.templateNames,
+  }[name] ?? [];
+
+  return candidates
+    .filter(candidate => candidate.toLowerCase().includes(argument))
+    .filter(candidate => candidate.toLowerCase() !== argument)
+    .map(candidate => ({
+      value: `/${name} ${candidate}`,
+      label: candidate,
+      description: { workflow: 'Workflow', export: 'Export format', template: 'Template' }[name] ?? ''
+    }));
+}
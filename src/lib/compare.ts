@@ -0,0 +1,158 @@
+import { supabase } from './supabase';
+import { streamApi, isAbortError } from './api';
+import { getAttachmentUrl, saveAttachments } from './attachments';
+import { getDefaultVariableValues, getInputVariables, validateVariableValues } from './variables';
+import type { ResponseDetails } from './response-mapping';
+import type { Attachment, MessageSource, WorkflowConfig } from './types';
+
+export interface ComparisonAnswer {
+  workflowId: string;
+  status: 'running' | 'done' | 'error';
+  text: string;
+  sources: MessageSource[];
+  details: ResponseDetails;
+  // Milliseconds from sending until the first output and the full answer
+  firstOutputMs: number | null;
+  totalMs: number | null;
+  error: string | null;
+}
+
+interface ComparisonQuestion {
+  text: string;
+  attachments: Attachment[];
+}
+
+/**
+ * Asks one workflow to answer a compare-mode question, reporting progress
+ * through `onUpdate`. Input variables are sent with their defaults, since the
+ * same prompt goes to workflows with different inputs. Never throws; failures
+ * end up in the answer's `error`.
+ */
+export async function runComparisonAnswer(
+  workflow: WorkflowConfig,
+  question: ComparisonQuestion,
+  onUpdate: (answer: ComparisonAnswer) => void,
+  signal?: AbortSignal
+): Promise<ComparisonAnswer> {
+  const startedAt = performance.now();
+  let answer: ComparisonAnswer = {
+    workflowId: workflow.id,
+    status: 'running',
+    text: '',
+    sources: [],
+    details: {},
+    firstOutputMs: null,
+    totalMs: null,
+    error: null
+  };
+  const update = (changes: Partial<ComparisonAnswer>) => {
+    answer = { ...answer, ...changes };
+    onUpdate(answer);
+  };
+
+  onUpdate(answer);
+
+  try {
+    const inputVariables = getInputVariables(workflow);
+    const variables = getDefaultVariableValues(inputVariables);
+    const variableError = validateVariableValues(inputVariables, variables);
+    if (variableError) {
+      throw new Error(`${variableError}, so this workflow cannot be compared`);
+    }
+
+    const attachmentUrls = question.attachments.map(getAttachmentUrl);
+    const response = await streamApi({
+      apiConfig: workflow.api_config,
+      retryPolicy: workflow.retry_policy,
+      variables: {
+        ...variables,
+        request: question.text,
+        workflow: workflow.name,
+        documentUrl: attachmentUrls[0] ?? null,
+        ...(attachmentUrls.length > 0 && { attachmentUrls: JSON.stringify(attachmentUrls) })
+      },
+      workflowId: workflow.id,
+      signal,
+      onText: (text) => {
+        if (!text) return;
+        update({
+          text,
+          firstOutputMs: answer.firstOutputMs ?? Math.round(performance.now() - startedAt)
+        });
+      }
+    });
+
+    update({
+      status: 'done',
+      text: response.data.response,
+      sources: response.data.sources,
+      details: response.data.details,
+      totalMs: Math.round(performance.now() - startedAt)
+    });
+  } catch (error) {
+    update({
+      status: 'error',
+      error: isAbortError(error) ? 'Stopped before it finished' : error instanceof Error ? error.message : 'Unknown error',
+      totalMs: Math.round(performance.now() - startedAt)
+    });
+  }
+
+  return answer;
+}
+
+/**
+ * Starts a conversation on the chosen workflow holding the compared question
+ * and the answer the user kept. Returns the new conversation's id.
+ */
+export async function saveComparisonAnswer(
+  userId: string,
+  workflow: WorkflowConfig,
+  question: ComparisonQuestion,
+  answer: ComparisonAnswer
+): Promise<string> {
+  const conversationId = crypto.randomUUID();
+  const questionId = crypto.randomUUID();
+
+  const { error: conversationError } = await supabase
+    .from('conversations')
+    .insert({
+      id: conversationId,
+      title: question.text,
+      workflow_id: workflow.id,
+      created_by: userId
+    });
+  if (conversationError) throw conversationError;
+
+  const { error: questionError } = await supabase
+    .from('messages')
+    .insert({
+      id: questionId,
+      conversation_id: conversationId,
+      sender_type: 'user',
+      text: question.text
+    });
+  if (questionError) throw questionError;
+
+  // Each conversation owns its attachment rows, the files themselves are shared
+  await saveAttachments(questionId, question.attachments.map(attachment => ({
+    ...attachment,
+    id: crypto.randomUUID()
+  })));
+
+  const { error: answerError } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversationId,
+      parent_message_id: questionId,
+      sender_type: 'assistant',
+      text: answer.text,
+      details: {
+        ...(answer.sources.length > 0 && { sources: answer.sources }),
+        ...answer.details,
+        comparison: { first_output_ms: answer.firstOutputMs, total_ms: answer.totalMs }
+      }
+    });
+  if (answerError) throw answerError;
+
+  return conversationId;
+}
@@ -0,0 +1,136 @@
+import { supabase } from './supabase';
+import type { ContextPolicy } from './types';
+import { getAncestors } from './branches';
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = {
+  strategy: 'last_turns',
+  max_turns: 10,
+  max_chars: 8000,
+};
+
+interface HistoryMessage {
+  sender_type: 'user' | 'assistant';
+  text: string;
+}
+
+interface Turn {
+  question: string;
+  answer: string;
+}
+
+const SUMMARY_EXCERPT_LENGTH = 160;
+
+function groupIntoTurns(messages: HistoryMessage[]): Turn[] {
+  const turns: Turn[] = [];
+
+  for (const msg of messages) {
+    const last = turns[turns.length - 1];
+    if (msg.sender_type === 'user' || !last || last.answer) {
+      turns.push(msg.sender_type === 'user'
+        ? { question: msg.text, answer: '' }
+        : { question: '', answer: msg.text });
+    } else {
+      last.answer = msg.text;
+    }
+  }
+
+  return turns;
+}
+
+function formatTurn({ question, answer }: Turn): string {
+  return [
+    question && `User: ${question}`,
+    answer && `Assistant: ${answer}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+function excerpt(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > SUMMARY_EXCERPT_LENGTH
+    ? `${singleLine.slice(0, SUMMARY_EXCERPT_LENGTH)}…`
+    : singleLine;
+}
+
+function withinBudget(turns: Turn[], maxChars: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const formatted = formatTurn(turns[i]);
+    if (used + formatted.length > maxChars) {
+      // Always send at least the tail of the most recent turn
+      if (kept.length === 0) kept.unshift(formatted.slice(-maxChars));
+      break;
+    }
+    kept.unshift(formatted);
+    used += formatted.length + 2;
+  }
+
+  return kept;
+}
+
+/**
+ * Turns prior conversation messages into the history text sent to the worker,
+ * following the workflow's context policy:
+ *   - `last_turns`: the last `max_turns` question/answer pairs
+ *   - `char_budget`: as many recent turns as fit into `max_chars`
+ *   - `summary`: the last `max_turns` turns verbatim, preceded by a condensed
+ *     outline of everything older
+ */
+export function buildConversationHistory(
+  messages: HistoryMessage[],
+  policy: ContextPolicy = DEFAULT_CONTEXT_POLICY
+): string {
+  const turns = groupIntoTurns(messages.filter(m => m.text?.trim()));
+  if (turns.length === 0) return '';
+
+  switch (policy.strategy) {
+    case 'char_budget':
+      return withinBudget(turns, policy.max_chars).join('\n\n');
+
+    case 'summary': {
+      const recent = turns.slice(-policy.max_turns);
+      const older = turns.slice(0, turns.length - recent.length);
+      const sections: string[] = [];
+
+      if (older.length > 0) {
+        const outline = older
+          .map(turn => `- Asked: ${excerpt(turn.question) || '(no question)'}; answered: ${excerpt(turn.answer) || '(no answer)'}`)
+          .join('\n');
+        sections.push(`Summary of earlier conversation:\n${outline.slice(0, policy.max_chars)}`);
+      }
+
+      sections.push(...recent.map(formatTurn));
+      return sections.join('\n\n');
+    }
+
+    case 'last_turns':
+    default:
+      return turns.slice(-policy.max_turns).map(formatTurn).join('\n\n');
+  }
+}
+
+/**
+ * Loads the conversation and builds the history leading up to (and including)
+ * `parentMessageId`, so alternative branches never leak into each other.
+ */
+export async function fetchConversationHistory(
+  conversationId: string,
+  parentMessageId: string | null,
+  policy?: ContextPolicy | null
+): Promise<string> {
+  if (!parentMessageId) return '';
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, parent_message_id, sender_type, text')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const nodes = (data || []).map(row => ({ ...row, parentId: row.parent_message_id }));
+  const thread = getAncestors(nodes, parentMessageId);
+
+  return buildConversationHistory(thread, { ...DEFAULT_CONTEXT_POLICY, ...policy });
+}
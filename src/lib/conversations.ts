@@ -0,0 +1,177 @@
+import { supabase } from './supabase';
+import type { ConversationFolder, ConversationTag, SearchResult, TagColor } from './types';
+
+async function getUserId() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  return user.id;
+}
+
+export async function fetchFolders(): Promise<ConversationFolder[]> {
+  const { data, error } = await supabase
+    .from('conversation_folders')
+    .select('id, name')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createFolder(name: string): Promise<ConversationFolder> {
+  const { data, error } = await supabase
+    .from('conversation_folders')
+    .insert({ name, created_by: await getUserId() })
+    .select('id, name')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteFolder(folderId: string) {
+  const { error } = await supabase
+    .from('conversation_folders')
+    .delete()
+    .eq('id', folderId);
+
+  if (error) throw error;
+}
+
+export async function fetchTags(): Promise<ConversationTag[]> {
+  const { data, error } = await supabase
+    .from('conversation_tags')
+    .select('id, name, color')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createTag(name: string, color: TagColor): Promise<ConversationTag> {
+  const { data, error } = await supabase
+    .from('conversation_tags')
+    .insert({ name, color, created_by: await getUserId() })
+    .select('id, name, color')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTag(tagId: string) {
+  const { error } = await supabase
+    .from('conversation_tags')
+    .delete()
+    .eq('id', tagId);
+
+  if (error) throw error;
+}
+
+export async function updateConversation(
+  conversationId: string,
+  changes: { title?: string; pinned?: boolean; folder_id?: string | null }
+) {
+  const { error } = await supabase
+    .from('conversations')
+    .update(changes)
+    .eq('id', conversationId);
+
+  if (error) throw error;
+}
+
+export async function toggleConversationTag(conversationId: string, tagId: string, enabled: boolean) {
+  const { error } = enabled
+    ? await supabase
+        .from('conversation_tag_assignments')
+        .insert({ conversation_id: conversationId, tag_id: tagId })
+    : await supabase
+        .from('conversation_tag_assignments')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('tag_id', tagId);
+
+  if (error) throw error;
+}
+
+/**
+ * Full-text search over the user's message contents and conversation titles
+ * across all workflows. Snippets wrap matched terms in `<mark>` tags.
+ */
+export async function searchConversations(query: string, limit = 20): Promise<SearchResult[]> {
+  const { data, error } = await supabase
+    .rpc('search_conversations', { p_query: query, p_limit: limit });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Clears the unread badge; a no-op unless a newer answer exists. */
+export async function markConversationRead(conversationId: string) {
+  const { error } = await supabase
+    .rpc('mark_conversation_read', { p_conversation_id: conversationId });
+
+  if (error) throw error;
+}
+
+type RowHandler = (row: Record<string, any>) => void;
+
+/**
+ * Listens for the user's conversations being created, changed or deleted in
+ * any tab or device. Delete events cannot be filtered and only carry the id,
+ * so `onDelete` also hears about other people's conversations; ignore ids
+ * that are not in the user's list. Returns a function that stops listening.
+ */
+export function subscribeToConversations(
+  userId: string,
+  handlers: { onInsert: RowHandler; onUpdate: RowHandler; onDelete: (id: string) => void }
+) {
+  const channel = supabase
+    .channel(`conversations:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'conversations', filter: `created_by=eq.${userId}` },
+      payload => handlers.onInsert(payload.new)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `created_by=eq.${userId}` },
+      payload => handlers.onUpdate(payload.new)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'conversations' },
+      payload => handlers.onDelete(payload.old.id)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Listens for messages added to a conversation, and for attachments, which
+ * are saved right after their message. Returns a function that stops listening.
+ */
+export function subscribeToMessages(
+  conversationId: string,
+  handlers: { onMessage: RowHandler; onAttachment: RowHandler }
+) {
+  const channel = supabase
+    .channel(`messages:${conversationId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+      payload => handlers.onMessage(payload.new)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'attachments', filter: `conversation_id=eq.${conversationId}` },
+      payload => handlers.onAttachment(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,67 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Beyond this many token comparisons we diff line by line instead of word by
+// word to keep long answers from freezing the page.
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return byLine
+    ? text.split(/(?<=\n)/)
+    : text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * Longest-common-subsequence diff between two texts, merged into runs of
+ * unchanged, added and removed text.
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
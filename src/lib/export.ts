@@ -0,0 +1,249 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { supabase } from './supabase';
+import { getActiveThread } from './branches';
+import type { BranchSelections } from './branches';
+import { getAttachmentUrl } from './attachments';
+import type { Attachment } from './types';
+import { MarkdownMessage } from '../components/MarkdownMessage';
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+interface Citation {
+  label: string;
+  url: string;
+}
+
+interface ExportMessage {
+  id: string;
+  parent_message_id: string | null;
+  sender_type: 'user' | 'assistant';
+  text: string;
+  created_at: string;
+  details: Record<string, any> | null;
+  attachments: (Attachment & { url: string })[];
+  citations: Citation[];
+}
+
+interface ConversationExport {
+  id: string;
+  title: string;
+  created_at: string;
+  workflow: { id: string; name: string } | null;
+  exported_at: string;
+  messages: ExportMessage[];
+}
+
+/**
+ * Collects the links an answer refers to: Markdown links, HTML anchors and
+ * any structured sources the worker returned in `details.sources`.
+ */
+export function extractCitations(text: string, details?: Record<string, any> | null): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+  const add = (label: string, url: string) => {
+    if (!url || seen.has(url)) return;
+    seen.add(url);
+    citations.push({ label: label.trim() || url, url });
+  };
+
+  if (Array.isArray(details?.sources)) {
+    for (const source of details.sources) {
+      if (source?.url) add(source.title || source.url, source.url);
+    }
+  }
+  for (const match of text.matchAll(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g)) {
+    add(match[1], match[2]);
+  }
+  for (const match of text.matchAll(/<a\s+(?:[^>]*?\s+)?href=(["'])(https?:\/\/.*?)\1[^>]*>(.*?)<\/a>/g)) {
+    add(match[3].replace(/<[^>]+>/g, ''), match[2]);
+  }
+
+  return citations;
+}
+
+async function loadConversationExport(
+  conversationId: string,
+  selections: BranchSelections
+): Promise<ConversationExport> {
+  const { data: conversation, error: conversationError } = await supabase
+    .from('conversations')
+    .select('id, title, created_at, workflows(id, name)')
+    .eq('id', conversationId)
+    .single();
+
+  if (conversationError) throw conversationError;
+
+  const { data: rows, error: messagesError } = await supabase
+    .from('messages')
+    .select('id, parent_message_id, sender_type, text, created_at, details, attachments(*)')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (messagesError) throw messagesError;
+
+  const thread = getActiveThread(
+    (rows || []).map(row => ({ ...row, parentId: row.parent_message_id })),
+    selections
+  );
+
+  const workflow = Array.isArray(conversation.workflows)
+    ? conversation.workflows[0]
+    : conversation.workflows;
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    created_at: conversation.created_at,
+    workflow: workflow ?? null,
+    exported_at: new Date().toISOString(),
+    messages: thread.map(({ parentId: _parentId, ...row }) => ({
+      ...row,
+      attachments: (row.attachments || []).map((attachment: Attachment) => ({
+        ...attachment,
+        url: getAttachmentUrl(attachment)
+      })),
+      citations: row.sender_type === 'assistant' ? extractCitations(row.text, row.details) : []
+    }))
+  };
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+function toMarkdown(data: ConversationExport): string {
+  const lines = [
+    `# ${data.title}`,
+    '',
+    `- **Workflow:** ${data.workflow?.name ?? 'Unknown'}`,
+    `- **Started:** ${formatDate(data.created_at)}`,
+    `- **Exported:** ${formatDate(data.exported_at)}`,
+  ];
+
+  for (const msg of data.messages) {
+    lines.push('', `## ${msg.sender_type === 'user' ? 'Question' : "Sharon's Answer"} (${formatDate(msg.created_at)})`, '', msg.text);
+
+    if (msg.attachments.length > 0) {
+      lines.push('', '**Attachments:**', ...msg.attachments.map(a => `- [${a.file_name}](${a.url})`));
+    }
+    if (msg.citations.length > 0) {
+      lines.push('', '**Sources:**', ...msg.citations.map((c, i) => `${i + 1}. [${c.label}](${c.url})`));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toPrintableHtml(data: ConversationExport): string {
+  const body = data.messages.map(msg => `
+    <section class="message ${msg.sender_type}">
+      <h2>${msg.sender_type === 'user' ? 'Question' : "Sharon's Answer"} <span>${escapeHtml(formatDate(msg.created_at))}</span></h2>
+      ${msg.sender_type === 'assistant'
+        ? renderToStaticMarkup(createElement(MarkdownMessage, { text: msg.text }))
+        : `<p class="question">${escapeHtml(msg.text)}</p>`}
+      ${msg.attachments.length > 0 ? `
+        <h3>Attachments</h3>
+        <ul>${msg.attachments.map(a => `<li><a href="${escapeHtml(a.url)}">${escapeHtml(a.file_name)}</a></li>`).join('')}</ul>` : ''}
+      ${msg.citations.length > 0 ? `
+        <h3>Sources</h3>
+        <ol>${msg.citations.map(c => `<li>${escapeHtml(c.label)} — <a href="${escapeHtml(c.url)}">${escapeHtml(c.url)}</a></li>`).join('')}</ol>` : ''}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(data.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; line-height: 1.5; }
+    header { border-bottom: 2px solid #BB86FC; margin-bottom: 1.5rem; }
+    header p { color: #555; margin: 0.25rem 0; }
+    .message { margin-bottom: 1.5rem; page-break-inside: avoid; }
+    .message h2 { font-size: 1rem; color: #6B3FA0; margin-bottom: 0.5rem; }
+    .message h2 span { font-weight: normal; color: #777; font-size: 0.85rem; }
+    .message h3 { font-size: 0.9rem; margin-bottom: 0.25rem; }
+    .question { white-space: pre-wrap; background: #F4EEFC; padding: 0.75rem; border-radius: 0.5rem; }
+    pre { background: #F5F5F5; padding: 0.75rem; overflow-x: auto; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #CCC; padding: 0.25rem 0.5rem; }
+    button { display: none; }
+    a { color: #6B3FA0; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(data.title)}</h1>
+    <p>Workflow: ${escapeHtml(data.workflow?.name ?? 'Unknown')}</p>
+    <p>Started: ${escapeHtml(formatDate(data.created_at))} · Exported: ${escapeHtml(formatDate(data.exported_at))}</p>
+  </header>
+  ${body}
+</body>
+</html>`;
+}
+
+function slugify(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'conversation';
+}
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Exports the conversation thread currently shown (or the latest branches
+ * when exporting from the sidebar). PDF export opens the browser's print
+ * dialog on a print-styled copy of the thread. Call it straight from the
+ * click handler: the PDF window is opened before anything is awaited, or
+ * popup blockers stop it.
+ */
+export async function exportConversation(
+  conversationId: string,
+  format: ExportFormat,
+  selections: BranchSelections = {}
+) {
+  const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+  if (format === 'pdf' && !printWindow) throw new Error('Please allow pop-ups to export as PDF');
+  printWindow?.document.write('<p style="font-family: sans-serif">Preparing export…</p>');
+
+  let data: ConversationExport;
+  try {
+    data = await loadConversationExport(conversationId, selections);
+  } catch (error) {
+    printWindow?.close();
+    throw error;
+  }
+  const fileName = slugify(data.title);
+
+  switch (format) {
+    case 'markdown':
+      download(toMarkdown(data), `${fileName}.md`, 'text/markdown');
+      break;
+    case 'json':
+      download(JSON.stringify(data, null, 2), `${fileName}.json`, 'application/json');
+      break;
+    case 'pdf': {
+      if (!printWindow) break;
+      printWindow.document.open();
+      printWindow.document.write(toPrintableHtml(data));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+      break;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import type { Attachment } from './types';
+
+// Messages are written to an IndexedDB outbox before anything is sent, so a
+// question typed while offline (or while Supabase is failing) survives a
+// reload and is delivered once the connection comes back.
+
+const DB_NAME = 'sharon-outbox';
+const STORE_NAME = 'entries';
+const DB_VERSION = 1;
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60000;
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  // Becomes the id of the saved user message, which makes retries idempotent
+  id: string;
+  userId: string;
+  workflowId: string;
+  conversationId: string;
+  // Set when the message starts a new conversation that has not been created yet
+  newConversationTitle: string | null;
+  parentId: string | null;
+  text: string;
+  variables?: Record<string, string>;
+  // Files still to upload; moved into `attachments` once uploaded
+  files: File[];
+  attachments: Attachment[];
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  error: string | null;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function listOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  const entries = await runTransaction<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry) {
+  await runTransaction('readwrite', store => store.put(entry));
+}
+
+export async function removeOutboxEntry(id: string) {
+  await runTransaction('readwrite', store => store.delete(id));
+}
+
+/**
+ * Whether a failed delivery is worth retrying automatically: the browser is
+ * offline, the request never reached the server, or the server failed.
+ * Anything else (validation, permissions) needs the user to step in.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const status = Number((error as { status?: unknown })?.status);
+  if (status === 408 || status === 429 || status >= 500) return true;
+
+  const message = error instanceof Error
+    ? error.message
+    : String((error as { message?: unknown })?.message ?? '');
+  return /failed to fetch|network|load failed|timed? ?out/i.test(message);
+}
+
+/** Exponential backoff: 2s, 4s, 8s, ... capped at one minute. */
+export function getRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/** Whether Postgres rejected an insert because the row already exists. */
+export function isDuplicateError(error: unknown) {
+  return (error as { code?: unknown })?.code === '23505';
+}
@@ -0,0 +1,84 @@
+import { PLACEHOLDER_PATTERN, extractPlaceholders } from './templates';
+import { RESERVED_VARIABLES } from './variables';
+
+type TemplateValues = Record<string, unknown>;
+
+// Filled in on every request, on top of the workflow's own variables
+export const BUILT_IN_PLACEHOLDERS = [...RESERVED_VARIABLES, 'user.email', 'user.id', 'workerId', 'stream'];
+
+export const SAMPLE_TEMPLATE_VALUES: TemplateValues = {
+  request: 'Summarize the attached contract',
+  workflow: 'Contract Review',
+  documentUrl: 'https://example.com/files/contract.pdf',
+  attachmentUrls: JSON.stringify(['https://example.com/files/contract.pdf']),
+  previousAnswer: null,
+  history: 'User: Who signed it?\n\nAssistant: Both parties signed on March 3.',
+  'user.email': 'jane@example.com',
+  'user.id': '00000000-0000-0000-0000-000000000000',
+  workerId: 'your-worker-id',
+  stream: false
+};
+
+const EXACT_PLACEHOLDER_PATTERN = new RegExp(`^${PLACEHOLDER_PATTERN.source}$`);
+
+/**
+ * Fills placeholders in the string values of a parsed template. A string that
+ * is nothing but a placeholder takes the value as is (so `"{{stream}}"` stays
+ * a boolean and unset values become null); placeholders inside longer strings
+ * are interpolated, with unset values left empty. Real requests are rendered
+ * the same way by the worker proxy; this is used for previews.
+ */
+function fillValue(value: unknown, values: TemplateValues): unknown {
+  if (typeof value === 'string') {
+    const exact = value.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exact) return values[exact[1]] ?? null;
+    return value.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => String(values[name] ?? ''));
+  }
+  if (Array.isArray(value)) return value.map(item => fillValue(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillValue(item, values)]));
+  }
+  return value;
+}
+
+export function renderBodyTemplate(template: string, values: TemplateValues): unknown {
+  return fillValue(JSON.parse(template), values);
+}
+
+export function renderHeadersTemplate(template: string, values: TemplateValues): Record<string, string> {
+  const headers = fillValue(JSON.parse(template), values) as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([name, value]) => [name, String(value)])
+  );
+}
+
+/**
+ * Returns an error message for a template that is not valid JSON of the
+ * right shape or that uses a placeholder nobody fills in, or null.
+ */
+export function validateRequestTemplate(
+  template: string,
+  kind: 'body' | 'headers',
+  variableNames: string[]
+): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (error) {
+    return `Not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`;
+  }
+
+  if (kind === 'headers') {
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return 'Headers must be a JSON object';
+    }
+    const invalid = Object.entries(parsed).find(([, value]) => typeof value !== 'string');
+    if (invalid) return `Header "${invalid[0]}" must be a string`;
+  }
+
+  const known = new Set([...BUILT_IN_PLACEHOLDERS, ...variableNames]);
+  const unknown = extractPlaceholders(template).find(name => !known.has(name));
+  return unknown ? `Unknown placeholder {{${unknown}}}` : null;
+}
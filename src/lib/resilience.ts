@@ -0,0 +1,258 @@
+import { supabase } from './supabase';
+import type { RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeout_ms: 60000,
+  max_retries: 2,
+  base_delay_ms: 1000,
+  breaker_threshold: 5,
+  breaker_cooldown_ms: 30000,
+};
+
+// Statuses worth another try; anything else is the request's own fault
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const MAX_BACKOFF_MS = 30000;
+// Waits asked for by `Retry-After` beyond this are reported instead of waited out
+const MAX_RETRY_AFTER_MS = 60000;
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The worker did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    super(`The worker is failing repeatedly; requests are paused for ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number | null;
+}
+
+// Kept per tab: each browser judges the worker by what it has seen itself
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(key: string): CircuitState {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { failures: 0, openUntil: null };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, the other
+ * half random, so clients that failed together do not retry together.
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.base_delay_ms * 2 ** retry, MAX_BACKOFF_MS);
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/** Reads `Retry-After` as either seconds or an HTTP date, in milliseconds. */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function logAttempt(workflowId: string | undefined, level: 'info' | 'warning' | 'error', message: string, details: object) {
+  if (!workflowId) return;
+
+  // Not awaited: the log must never hold up or fail the request itself
+  supabase
+    .from('workflow_logs')
+    .insert({ workflow_id: workflowId, level, message, details })
+    .then(({ error }) => {
+      if (error) console.error('Failed to log request attempt:', error);
+    });
+}
+
+/** Stops the attempt when the worker has been silent for too long. */
+export interface IdleTimer {
+  // Call whenever output arrives to restart the countdown
+  reset: () => void;
+  clear: () => void;
+}
+
+/**
+ * Reports to the circuit breaker how a returned response turned out. A worker
+ * can send its headers and then hang, so this waits until the body has been
+ * read. Only the first report counts.
+ */
+export interface CircuitReport {
+  recordSuccess: () => void;
+  recordFailure: () => void;
+}
+
+interface ResilientFetchOptions {
+  policy?: Partial<RetryPolicy> | null;
+  workflowId?: string;
+  signal?: AbortSignal;
+  // API tests skip the breaker so a fixed configuration can be tried right away
+  useCircuitBreaker?: boolean;
+}
+
+/**
+ * Fetches with the workflow's retry policy. Each attempt gets the policy's
+ * timeout, network errors, timeouts and retryable statuses are retried with
+ * backoff (honoring `Retry-After`), and retried and successful attempts are
+ * written to `workflow_logs`. The final failure is thrown or returned
+ * without a log entry; the caller logs it once. Once a response is returned
+ * it is not retried again, so callers keep the returned timer running while
+ * they read the body, then report the outcome through the returned circuit.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  { policy: storedPolicy, workflowId, signal, useCircuitBreaker = true }: ResilientFetchOptions
+): Promise<{ response: Response; idleTimer: IdleTimer; circuit: CircuitReport }> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...storedPolicy };
+  const circuit = getCircuit(workflowId ?? url);
+  const maxAttempts = policy.max_retries + 1;
+
+  if (useCircuitBreaker && circuit.openUntil !== null) {
+    if (circuit.openUntil > Date.now()) {
+      throw new CircuitOpenError(circuit.openUntil);
+    }
+    // Cooldown over: let this request through as a trial
+    circuit.openUntil = null;
+  }
+
+  const recordFailure = () => {
+    if (!useCircuitBreaker || policy.breaker_threshold < 1) return;
+    circuit.failures += 1;
+    if (circuit.failures >= policy.breaker_threshold) {
+      const openUntil = Date.now() + policy.breaker_cooldown_ms;
+      circuit.openUntil = openUntil;
+      logAttempt(workflowId, 'error', 'Circuit opened after repeated failures', {
+        failures: circuit.failures,
+        open_until: new Date(openUntil).toISOString()
+      });
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const idleTimer: IdleTimer = {
+      reset: () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(new RequestTimeoutError(policy.timeout_ms)), policy.timeout_ms);
+      },
+      clear: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abortFromCaller);
+      }
+    };
+
+    const startedAt = performance.now();
+    const attemptDetails = () => ({
+      attempt,
+      max_attempts: maxAttempts,
+      duration_ms: Math.round(performance.now() - startedAt)
+    });
+
+    let retryDelay: number;
+    try {
+      idleTimer.reset();
+      const response = await fetch(url, { ...init, signal: controller.signal });
+
+      const retryable = RETRYABLE_STATUSES.includes(response.status);
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      if (response.ok || !retryable || attempt >= maxAttempts || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+        // Error statuses are judged here; successful ones once their body is read
+        let reported = !response.ok;
+        if (retryable) recordFailure();
+
+        const report: CircuitReport = {
+          recordSuccess: () => {
+            if (reported) return;
+            reported = true;
+            circuit.failures = 0;
+            circuit.openUntil = null;
+          },
+          recordFailure: () => {
+            if (reported) return;
+            reported = true;
+            recordFailure();
+          }
+        };
+
+        if (response.ok) {
+          logAttempt(workflowId, 'info', `Attempt ${attempt} of ${maxAttempts}: ${response.status} ${response.statusText}`.trim(), {
+            ...attemptDetails(),
+            status: response.status
+          });
+        }
+        return { response, idleTimer, circuit: report };
+      }
+
+      retryDelay = retryAfter ?? getBackoffDelay(attempt - 1, policy);
+      idleTimer.clear();
+      // The body is not needed; release the connection
+      response.body?.cancel().catch(() => {});
+
+      logAttempt(workflowId, 'warning', `Attempt ${attempt} of ${maxAttempts} failed: ${response.status} ${response.statusText}`.trim(), {
+        ...attemptDetails(),
+        status: response.status,
+        retry_in_ms: retryDelay,
+        ...(retryAfter !== null && { retry_after_ms: retryAfter })
+      });
+    } catch (error) {
+      idleTimer.clear();
+      if (signal?.aborted) throw error;
+
+      if (attempt >= maxAttempts) {
+        recordFailure();
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Network error';
+
+      retryDelay = getBackoffDelay(attempt - 1, policy);
+      logAttempt(workflowId, 'warning', `Attempt ${attempt} of ${maxAttempts} failed: ${message}`, {
+        ...attemptDetails(),
+        error: message,
+        retry_in_ms: retryDelay
+      });
+    }
+
+    await sleep(retryDelay, signal);
+  }
+}
@@ -0,0 +1,141 @@
+import { normalizeSources } from './sources';
+import type { MessageSource, ResponseMapping } from './types';
+
+type PathSegment = string | number | '*';
+
+/** Structured fields pulled out of a worker reply, stored in `messages.details`. */
+export interface ResponseDetails {
+  suggestions?: string[];
+  usage?: unknown;
+  cost?: number;
+}
+
+export interface MappedResponse extends ResponseDetails {
+  text?: string;
+  sources?: MessageSource[];
+}
+
+export const RESPONSE_MAPPING_FIELDS: { key: keyof ResponseMapping; label: string; example: string }[] = [
+  { key: 'text', label: 'Answer text', example: '$.result' },
+  { key: 'sources', label: 'Citations', example: '$.sources' },
+  { key: 'suggestions', label: 'Follow-up suggestions', example: '$.suggestions[*].text' },
+  { key: 'usage', label: 'Usage', example: '$.usage' },
+  { key: 'cost', label: 'Cost', example: '$.billing.cost' },
+];
+
+const SEGMENT_PATTERN = /^(?:\.([A-Za-z_$][\w$-]*)|\.\*|\[\*\]|\[(-?\d+)\]|\[(['"])(.*?)\3\])/;
+
+/**
+ * Parses the JSONPath subset the mapping supports: `$`, `.name`, `['name']`,
+ * `[0]` (negative indexes count from the end) and the `.*` / `[*]` wildcards.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error('Paths start with $');
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = trimmed.slice(1);
+  while (rest) {
+    const match = rest.match(SEGMENT_PATTERN);
+    if (!match) {
+      throw new Error(`Unexpected "${rest}"`);
+    }
+
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[4] !== undefined) segments.push(match[4]);
+    else segments.push('*');
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/** Returns an error message for a malformed path, or null. */
+export function validatePath(path: string): string | null {
+  try {
+    parsePath(path);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid path';
+  }
+}
+
+/**
+ * Evaluates a path against `data`. Paths with a wildcard return the list of
+ * matches; other paths return the single value or undefined.
+ */
+export function evaluatePath(data: unknown, path: string): unknown {
+  const segments = parsePath(path);
+  let values: unknown[] = [data];
+
+  for (const segment of segments) {
+    values = values.flatMap(value => {
+      if (value === null || typeof value !== 'object') return [];
+      if (segment === '*') return Object.values(value);
+      if (typeof segment === 'number') {
+        if (!Array.isArray(value)) return [];
+        const item = value[segment < 0 ? value.length + segment : segment];
+        return item === undefined ? [] : [item];
+      }
+      const item = (value as Record<string, unknown>)[segment];
+      return item === undefined ? [] : [item];
+    });
+  }
+
+  return segments.includes('*') ? values : values[0];
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.join('');
+  return undefined;
+}
+
+function toSuggestions(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return typeof value === 'string' && value.trim() ? [value.trim()] : undefined;
+
+  return value
+    .map(item => typeof item === 'string' ? item : item?.text ?? item?.title ?? item?.label)
+    .filter((item): item is string => typeof item === 'string' && !!item.trim())
+    .map(item => item.trim());
+}
+
+function toCost(value: unknown): number | undefined {
+  const cost = typeof value === 'string' ? Number(value.replace(/[^\d.-]/g, '')) : value;
+  return typeof cost === 'number' && Number.isFinite(cost) ? cost : undefined;
+}
+
+/**
+ * Applies a workflow's mapping to a parsed reply. Fields without a rule, or
+ * whose rule does not match, are left out so the caller can fall back to the
+ * provider's defaults. Malformed rules are skipped the same way.
+ */
+export function applyResponseMapping(data: unknown, mapping?: ResponseMapping | null): MappedResponse {
+  const read = (key: keyof ResponseMapping) => {
+    const path = mapping?.[key]?.trim();
+    if (!path) return undefined;
+    try {
+      return evaluatePath(data, path);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const sources = read('sources');
+  const usage = read('usage');
+  const mapped: MappedResponse = {
+    text: toText(read('text')),
+    sources: sources === undefined ? undefined : normalizeSources(Array.isArray(sources) ? sources : [sources]),
+    suggestions: toSuggestions(read('suggestions')),
+    usage: usage === null ? undefined : usage,
+    cost: toCost(read('cost'))
+  };
+
+  return Object.fromEntries(
+    Object.entries(mapped).filter(([, value]) => value !== undefined)
+  ) as MappedResponse;
+}
@@ -0,0 +1,159 @@
+import { supabase } from './supabase';
+import type { Attachment, ConversationShare, ShareLink, ShareRecipient } from './types';
+
+export interface SharedConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  workflow_name: string | null;
+  messages: {
+    id: string;
+    parent_message_id: string | null;
+    sender_type: 'user' | 'assistant';
+    text: string;
+    details: Record<string, any> | null;
+    created_at: string;
+    attachments: Attachment[];
+  }[];
+}
+
+export interface SharedWithMeConversation {
+  id: string;
+  title: string;
+  owner_email: string;
+  shared_at: string;
+}
+
+export function getShareLinkUrl(token: string) {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+export function getSharedConversationUrl(conversationId: string) {
+  return `${window.location.origin}/shared/conversation/${conversationId}`;
+}
+
+export function isShareLinkActive(link: ShareLink) {
+  return !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > new Date());
+}
+
+export async function searchShareRecipients(query: string): Promise<ShareRecipient[]> {
+  const { data, error } = await supabase.rpc('search_share_recipients', { p_query: query });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchConversationShares(conversationId: string): Promise<ConversationShare[]> {
+  const { data, error } = await supabase
+    .rpc('get_conversation_shares', { p_conversation_id: conversationId });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function shareConversation(
+  conversationId: string,
+  recipient: { scope: 'user'; userId: string } | { scope: 'company' }
+) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('conversation_shares')
+    .insert({
+      conversation_id: conversationId,
+      scope: recipient.scope,
+      shared_with: recipient.scope === 'user' ? recipient.userId : null,
+      created_by: user.id
+    });
+
+  if (error) throw error;
+}
+
+export async function removeConversationShare(shareId: string) {
+  const { error } = await supabase
+    .from('conversation_shares')
+    .delete()
+    .eq('id', shareId);
+
+  if (error) throw error;
+}
+
+export async function fetchShareLinks(conversationId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from('conversation_share_links')
+    .select('id, token, expires_at, revoked_at, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createShareLink(conversationId: string, expiresAt: Date | null): Promise<ShareLink> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('conversation_share_links')
+    .insert({
+      conversation_id: conversationId,
+      expires_at: expiresAt?.toISOString() ?? null,
+      created_by: user.id
+    })
+    .select('id, token, expires_at, revoked_at, created_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeShareLink(linkId: string) {
+  const { error } = await supabase
+    .from('conversation_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) throw error;
+}
+
+/**
+ * Loads a conversation through a read-only link. Link viewers have no grant
+ * on the conversation itself, so this goes through `get_shared_conversation`
+ * which validates the token, expiry and revocation server-side.
+ */
+export async function fetchSharedConversationByToken(token: string): Promise<SharedConversation> {
+  const { data, error } = await supabase.rpc('get_shared_conversation', { p_token: token });
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Loads a conversation the current user has been granted access to, either
+ * directly or through a company-wide share. RLS does the access check.
+ */
+export async function fetchSharedConversationById(conversationId: string): Promise<SharedConversation> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, title, created_at, workflows(name), messages(id, parent_message_id, sender_type, text, details, created_at, attachments(*))')
+    .eq('id', conversationId)
+    .order('created_at', { referencedTable: 'messages', ascending: true })
+    .single();
+
+  if (error) throw error;
+
+  const workflow = Array.isArray(data.workflows) ? data.workflows[0] : data.workflows;
+
+  return {
+    id: data.id,
+    title: data.title,
+    created_at: data.created_at,
+    workflow_name: workflow?.name ?? null,
+    messages: data.messages
+  };
+}
+
+/** Conversations other people shared with the current user or their company. */
+export async function fetchConversationsSharedWithMe(): Promise<SharedWithMeConversation[]> {
+  const { data, error } = await supabase.rpc('get_conversations_shared_with_me');
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,61 @@
+import type { MessageSource } from './types';
+
+function pickString(...values: unknown[]): string | null {
+  const value = values.find(v => typeof v === 'string' && v.trim());
+  return typeof value === 'string' ? value.trim() : null;
+}
+
+/** The URL if it is an http(s) link, so `javascript:` and the like never become hrefs. */
+function toSafeUrl(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalizes the `sources` (or `citations`) list of a worker response. Workers
+ * may send bare URLs or objects using a few common key names; anything without
+ * a title, link or snippet is dropped. Links that are not http(s) are
+ * removed; saved messages are normalized again when loaded, so this covers
+ * every source the UI renders.
+ */
+export function normalizeSources(raw: unknown): MessageSource[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): MessageSource[] => {
+    if (typeof item === 'string') {
+      return item.trim() ? [{ title: item.trim(), url: toSafeUrl(item.trim()), snippet: null, page: null }] : [];
+    }
+    if (!item || typeof item !== 'object') return [];
+
+    const url = toSafeUrl(pickString(item.url, item.link, item.href));
+    const snippet = pickString(item.snippet, item.excerpt, item.text, item.content);
+    const page = Number(item.page ?? item.page_number);
+    const title = pickString(item.title, item.name, item.document) ?? url;
+    if (!title && !snippet) return [];
+
+    return [{
+      title: title ?? 'Untitled source',
+      url,
+      snippet,
+      page: Number.isInteger(page) && page > 0 ? page : null
+    }];
+  });
+}
+
+/** Reads sources from a parsed worker payload, if it carries any. */
+export function extractSources(data: any): MessageSource[] | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  const raw = data.sources ?? data.citations;
+  return Array.isArray(raw) ? normalizeSources(raw) : undefined;
+}
+
+/** Index into the sources list for a citation label such as `[2]` or `2`. */
+export function getCitationIndex(label: string): number | null {
+  const match = label.match(/\d+/);
+  return match ? Number(match[0]) - 1 : null;
+}
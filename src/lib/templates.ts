@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import type { PromptTemplate } from './types';
+
+export const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Distinct `{{placeholder}}` names in the order they first appear. */
+export function extractPlaceholders(body: string): string[] {
+  return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/** Personal and company templates that apply to `workflowId` (or to every workflow). */
+export async function fetchTemplates(workflowId: string): Promise<PromptTemplate[]> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, name, body, scope, workflow_ids, created_by')
+    .or(`workflow_ids.eq.{},workflow_ids.cs.{${workflowId}}`)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveTemplate(
+  template: Omit<PromptTemplate, 'id' | 'created_by'> & { id?: string }
+): Promise<PromptTemplate> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { id, ...fields } = template;
+  const query = id
+    ? supabase.from('prompt_templates').update(fields).eq('id', id)
+    : supabase.from('prompt_templates').insert({ ...fields, created_by: user.id });
+
+  const { data, error } = await query
+    .select('id, name, body, scope, workflow_ids, created_by')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTemplate(templateId: string) {
+  const { error } = await supabase
+    .from('prompt_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
@@ -71,13 +71,179 @@ export interface Profile {
   updated_at: string;
 }
 
+export interface Attachment {
+  id: string;
+  message_id?: string;
+  file_name: string;
+  mime_type: string | null;
+  size: number | null;
+  bucket: string;
+  path: string;
+  checksum: string | null;
+}
+
+/** A source the worker cited; `[n]` citations refer to the n-th entry. */
+export interface MessageSource {
+  title: string;
+  url: string | null;
+  snippet: string | null;
+  // Page of a document source
+  page: number | null;
+}
+
+export const FEEDBACK_REASONS = {
+  helpful: 'Helpful',
+  incorrect: 'Incorrect',
+  incomplete: 'Incomplete',
+  irrelevant: 'Off topic',
+  formatting: 'Poor formatting',
+  too_slow: 'Too slow',
+  other: 'Other',
+} as const;
+
+export type FeedbackReason = keyof typeof FEEDBACK_REASONS;
+
+export interface MessageFeedback {
+  rating: 1 | -1;
+  reason: FeedbackReason | null;
+  comment: string | null;
+}
+
+export const TAG_COLORS = {
+  purple: 'bg-[#BB86FC]/20 text-[#BB86FC]',
+  blue: 'bg-blue-500/20 text-blue-400',
+  green: 'bg-emerald-500/20 text-emerald-400',
+  yellow: 'bg-yellow-500/20 text-yellow-400',
+  orange: 'bg-orange-500/20 text-orange-400',
+  red: 'bg-red-500/20 text-red-400',
+  gray: 'bg-gray-500/20 text-gray-300',
+} as const;
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+}
+
+export interface SearchResult {
+  conversation_id: string;
+  conversation_title: string;
+  workflow_id: string;
+  workflow_name: string | null;
+  message_id: string | null;
+  sender_type: 'user' | 'assistant' | null;
+  snippet: string;
+  rank: number;
+  created_at: string;
+}
+
+export interface ConversationShare {
+  id: string;
+  scope: 'user' | 'company';
+  shared_with: string | null;
+  email: string | null;
+  created_at: string;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ShareRecipient {
+  id: string;
+  email: string;
+}
+
+export const templateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  body: z.string().min(1, 'Prompt is required').max(10000, 'Prompt is too long'),
+  scope: z.enum(['personal', 'company']).default('personal'),
+  workflow_ids: z.array(z.string()).default([]),
+});
+
+export type TemplateFormData = z.infer<typeof templateSchema>;
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  scope: 'personal' | 'company';
+  workflow_ids: string[];
+  created_by: string;
+}
+
+export interface ContextPolicy {
+  strategy: 'last_turns' | 'char_budget' | 'summary';
+  max_turns: number;
+  max_chars: number;
+}
+
+export interface RetryPolicy {
+  // Longest wait for the worker to start or continue answering
+  timeout_ms: number;
+  max_retries: number;
+  // First backoff delay, doubled on every retry
+  base_delay_ms: number;
+  // Consecutive failed requests before requests are paused; 0 disables it
+  breaker_threshold: number;
+  breaker_cooldown_ms: number;
+}
+
+export interface WorkflowVariable {
+  name: string;
+  // Default value sent when the user leaves the input untouched
+  value: string;
+  label?: string;
+  required?: boolean;
+  type?: 'text' | 'textarea' | 'select';
+  options?: string[];
+}
+
+export type ApiProvider = 'mindstudio' | 'openai' | 'webhook';
+
+/** JSONPath-style rules for reading fields out of a worker reply. */
+export interface ResponseMapping {
+  text?: string;
+  sources?: string;
+  suggestions?: string;
+  usage?: string;
+  cost?: string;
+}
+
+export interface ApiConfig {
+  // Rows saved before providers existed have none and use MindStudio
+  provider?: ApiProvider;
+  method: string;
+  url: string;
+  content_type: string;
+  response_mapping?: ResponseMapping;
+  // JSON templates with {{placeholders}} that replace the provider's body and
+  // add to its headers
+  body_template?: string;
+  headers_template?: string;
+}
+
 export interface WorkflowConfig {
   id: string;
   name: string;
   worker_id: string;
-  api_auth_token: string;
   supports_documents?: boolean;
   supports_images?: boolean;
+  context_policy?: ContextPolicy;
+  retry_policy?: RetryPolicy;
+  variables?: WorkflowVariable[];
+  api_config?: ApiConfig | null;
 }
 
 export interface Workflow extends WorkflowConfig {
@@ -86,5 +252,5 @@ export interface Workflow extends WorkflowConfig {
   created_at: string;
   updated_at: string;
   order: number;
-  variables: any[];
+  variables: WorkflowVariable[];
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { WorkflowConfig, WorkflowVariable } from './types';
+
+// Filled in by the chat itself on every request; admins can list them on a
+// workflow to document the body, but users never get an input for them.
+export const RESERVED_VARIABLES = ['request', 'workflow', 'documentUrl', 'attachmentUrls', 'previousAnswer', 'history'];
+
+/** Variables the user fills in from the composer. */
+export function getInputVariables(workflow: Pick<WorkflowConfig, 'variables'> | null): WorkflowVariable[] {
+  return (workflow?.variables || []).filter(variable =>
+    variable.name && !RESERVED_VARIABLES.includes(variable.name)
+  );
+}
+
+export function getDefaultVariableValues(variables: WorkflowVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.value ?? '']));
+}
+
+export function getVariableLabel(variable: WorkflowVariable) {
+  return variable.label?.trim() || variable.name;
+}
+
+/** Returns an error message naming the first required variable left empty. */
+export function validateVariableValues(
+  variables: WorkflowVariable[],
+  values: Record<string, string>
+): string | null {
+  const missing = variables.find(variable => variable.required && !values[variable.name]?.trim());
+  return missing ? `${getVariableLabel(missing)} is required` : null;
+}
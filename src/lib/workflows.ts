@@ -0,0 +1,25 @@
+import { supabase } from './supabase';
+import type { ApiConfig, WorkflowConfig } from './types';
+
+// Only the provider and response mapping of `api_config` are readable here;
+// the worker proxy fills in the rest
+export const WORKFLOW_CONFIG_COLUMNS =
+  'id, name, worker_id, supports_documents, supports_images, context_policy, retry_policy, variables, api_config:client_api_config';
+
+export async function fetchActiveWorkflows(): Promise<WorkflowConfig[]> {
+  const { data, error } = await supabase
+    .from('workflows')
+    .select(WORKFLOW_CONFIG_COLUMNS)
+    .eq('status', 'active')
+    .order('order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** The full `api_config` of a workflow, or null unless the user manages it. */
+export async function fetchWorkflowApiConfig(workflowId: string): Promise<ApiConfig | null> {
+  const { data, error } = await supabase.rpc('get_workflow_api_config', { p_workflow_id: workflowId });
+  if (error) throw error;
+  return data;
+}
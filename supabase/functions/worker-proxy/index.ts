@@ -0,0 +1,300 @@
+/*
+  # Worker proxy
+
+  Forwards a chat or test request to a workflow's worker, attaching the
+  workflow's `api_auth_token` here so it never reaches the browser.
+
+  Request: POST with the caller's Supabase session as `Authorization` and a
+  JSON body of
+    - `workflowId`: the workflow to run
+    - `variables`: the request variables (`request`, `history`, inputs, ...)
+    - `stream`: whether the worker is asked to stream
+    - `config` (optional): unsaved `worker_id`, `api_auth_token` and
+      `api_config` to try from the workflow form. Only people who can manage
+      the workflow may send it; without a `workflowId` only admins may.
+
+  The worker's reply is passed through as is, streaming included.
+
+  Run locally with the Supabase CLI:
+    supabase functions serve worker-proxy
+*/
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+type Variables = Record<string, string | null>;
+
+interface ApiConfig {
+  provider?: 'mindstudio' | 'openai' | 'webhook';
+  method?: string;
+  url?: string;
+  content_type?: string;
+  body_template?: string;
+  headers_template?: string;
+}
+
+interface WorkerConfig {
+  worker_id: string | null;
+  api_auth_token: string | null;
+  api_config: ApiConfig | null;
+}
+
+interface ProxyRequest {
+  workflowId?: string;
+  variables?: Variables;
+  stream?: boolean;
+  config?: Partial<WorkerConfig>;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, accept',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Only these come back from the worker; the rest of its headers stay here
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const EXACT_PLACEHOLDER_PATTERN = new RegExp(`^${PLACEHOLDER_PATTERN.source}$`);
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toBearer(apiAuthToken: string) {
+  return apiAuthToken.startsWith('Bearer ') ? apiAuthToken : `Bearer ${apiAuthToken}`;
+}
+
+/*
+  The request side of the provider adapters and request templates in
+  src/lib/api.ts and src/lib/request-template.ts. Changes there need to be
+  made here too.
+*/
+const PROVIDERS = {
+  mindstudio: {
+    url: 'https://api.mindstudio.ai/developer/v2/workers/run',
+    requiresWorkerId: true,
+    requiresToken: true,
+    authorization: toBearer,
+    buildBody: (workerId: string, variables: Variables) => ({ workerId, variables }),
+  },
+  openai: {
+    url: 'https://api.openai.com/v1/chat/completions',
+    requiresWorkerId: true,
+    requiresToken: true,
+    authorization: toBearer,
+    buildBody: (model: string, { request, history, ...rest }: Variables, stream: boolean) => {
+      const details = Object.entries(rest)
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+
+      return {
+        model,
+        stream,
+        messages: [
+          ...(details ? [{ role: 'system', content: `Request details:\n${details}` }] : []),
+          ...(history ? [{ role: 'system', content: `Conversation so far:\n${history}` }] : []),
+          { role: 'user', content: request ?? '' },
+        ],
+      };
+    },
+  },
+  webhook: {
+    url: '',
+    requiresWorkerId: false,
+    requiresToken: false,
+    authorization: (apiAuthToken: string) => apiAuthToken,
+    buildBody: (_workerId: string, variables: Variables) => variables,
+  },
+};
+
+// Where a token ends up: the provider and the URL it is sent to
+function getEndpoint(apiConfig: ApiConfig | null) {
+  const provider = apiConfig?.provider ?? 'mindstudio';
+  return `${provider} ${apiConfig?.url || PROVIDERS[provider]?.url || ''}`;
+}
+
+function fillValue(value: unknown, values: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const exact = value.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exact) return values[exact[1]] ?? null;
+    return value.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => String(values[name] ?? ''));
+  }
+  if (Array.isArray(value)) return value.map(item => fillValue(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillValue(item, values)]));
+  }
+  return value;
+}
+
+function buildWorkerRequest(
+  { worker_id, api_auth_token, api_config }: WorkerConfig,
+  variables: Variables,
+  stream: boolean,
+  user: { id: string; email?: string }
+) {
+  const provider = PROVIDERS[api_config?.provider ?? 'mindstudio'];
+  if (!provider) throw new Error('Unknown provider');
+
+  const url = api_config?.url || provider.url;
+  const workerId = worker_id ?? '';
+  if (!url) throw new Error('API URL is not configured');
+  if (provider.requiresWorkerId && !workerId) throw new Error('Worker ID is not configured');
+  if (provider.requiresToken && !api_auth_token) throw new Error('API authentication token is not configured');
+
+  const values = {
+    ...variables,
+    'user.email': user.email ?? null,
+    'user.id': user.id,
+    workerId,
+    stream,
+  };
+
+  const headers: Record<string, string> = {
+    'Content-Type': api_config?.content_type || 'application/json',
+    'Accept': 'text/event-stream, application/json',
+    ...(api_auth_token && { 'Authorization': provider.authorization(api_auth_token) }),
+  };
+  if (api_config?.headers_template) {
+    const templated = fillValue(JSON.parse(api_config.headers_template), values) as Record<string, unknown>;
+    for (const [name, value] of Object.entries(templated)) {
+      if (value !== null && value !== '') headers[name] = String(value);
+    }
+  }
+
+  const body = api_config?.body_template
+    ? fillValue(JSON.parse(api_config.body_template), values)
+    : provider.buildBody(workerId, variables, stream);
+
+  return { url, method: (api_config?.method || 'post').toUpperCase(), headers, body };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse(401, { error: 'Not signed in' });
+  }
+
+  let payload: ProxyRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonResponse(400, { error: 'Request body must be JSON' });
+  }
+
+  const { workflowId, variables = {}, stream = false, config } = payload;
+
+  // The service role reads the token, so every access check happens here
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+  const isAdmin = profile?.role === 'admin';
+
+  let stored: WorkerConfig | null = null;
+  let canManage = isAdmin;
+
+  if (workflowId) {
+    const { data: workflow, error } = await admin
+      .from('workflows')
+      .select('id, created_by, worker_id, api_auth_token, api_config')
+      .eq('id', workflowId)
+      .maybeSingle();
+    if (error) {
+      console.error('Failed to load workflow:', error);
+      return jsonResponse(500, { error: 'Failed to load the workflow' });
+    }
+
+    canManage = isAdmin || workflow?.created_by === user.id;
+    let canUse = canManage;
+    if (workflow && !canUse) {
+      const { data: grant } = await admin
+        .from('user_workflows')
+        .select('id')
+        .eq('workflow_id', workflowId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      canUse = !!grant;
+    }
+
+    // Not found and not allowed look the same, so ids cannot be probed
+    if (!workflow || !canUse) {
+      return jsonResponse(404, { error: 'Workflow not found' });
+    }
+    stored = workflow;
+  }
+
+  if (config && !canManage) {
+    return jsonResponse(403, { error: 'Only people who manage this workflow can test other settings' });
+  }
+  if (!stored && !config) {
+    return jsonResponse(400, { error: 'workflowId is required' });
+  }
+
+  const apiConfig = config?.api_config ?? stored?.api_config ?? null;
+
+  // A blank token in the form means "keep the saved one", but only for the
+  // saved endpoint, so it cannot be sent to a different URL or provider
+  if (config && !config.api_auth_token && stored?.api_auth_token
+    && getEndpoint(apiConfig) !== getEndpoint(stored.api_config)) {
+    return jsonResponse(400, { error: 'Enter the API token again to use it with a different URL or provider' });
+  }
+
+  const workerConfig: WorkerConfig = {
+    worker_id: config?.worker_id ?? stored?.worker_id ?? null,
+    api_auth_token: config?.api_auth_token || stored?.api_auth_token || null,
+    api_config: apiConfig,
+  };
+
+  let request;
+  try {
+    request = buildWorkerRequest(workerConfig, variables, stream, user);
+  } catch (error) {
+    return jsonResponse(400, { error: error instanceof Error ? error.message : 'Invalid worker configuration' });
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      // Stop the worker call when the browser goes away
+      signal: req.signal,
+    });
+  } catch (error) {
+    console.error('Worker request failed:', error);
+    return jsonResponse(502, { error: 'Failed to connect to the worker API' });
+  }
+
+  const headers = new Headers(corsHeaders);
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers,
+  });
+});
@@ -0,0 +1,14 @@
+/*
+  # Store raw worker output in messages
+
+  1. Changes
+    - Document that `messages.text` now holds the raw Markdown returned by the
+      worker instead of pre-rendered HTML
+    - Rendering and HTML sanitizing happen in the client at display time
+
+  2. Notes
+    - Existing rows that contain HTML are still displayed, but go through the
+      same sanitizer as new messages
+*/
+
+COMMENT ON COLUMN messages.text IS 'Raw message text (Markdown for assistant messages); rendered and sanitized at display time';
@@ -0,0 +1,40 @@
+/*
+  # Add conversation history policy to workflows
+
+  1. Changes
+    - Add `context_policy` JSONB column to `workflows`
+      - `strategy` (text): 'last_turns', 'char_budget' or 'summary'
+      - `max_turns` (integer): number of recent turns sent verbatim
+      - `max_chars` (integer): character budget for the history payload
+    - Add check constraint for the policy structure
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+-- Add context_policy column
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS context_policy jsonb DEFAULT jsonb_build_object(
+  'strategy', 'last_turns',
+  'max_turns', 10,
+  'max_chars', 8000
+);
+
+-- Update any null values to the default policy
+UPDATE workflows
+SET context_policy = jsonb_build_object(
+  'strategy', 'last_turns',
+  'max_turns', 10,
+  'max_chars', 8000
+)
+WHERE context_policy IS NULL;
+
+-- Add check constraint for context_policy structure
+ALTER TABLE workflows
+ADD CONSTRAINT valid_context_policy CHECK (
+  jsonb_typeof(context_policy) = 'object' AND
+  context_policy->>'strategy' IN ('last_turns', 'char_budget', 'summary')
+);
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN workflows.context_policy IS 'How much prior conversation is sent to the worker as history';
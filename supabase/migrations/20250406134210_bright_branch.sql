@@ -0,0 +1,38 @@
+/*
+  # Add branching conversation history
+
+  1. Changes
+    - Add `parent_message_id` column to `messages`
+      - References the message this one replies to (NULL for the first question)
+      - Messages sharing a parent are alternative branches (regenerated
+        answers or edited questions)
+    - Backfill existing conversations as a single linear branch
+    - Add index for looking up a message's children
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+-- Add parent_message_id column
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS parent_message_id uuid REFERENCES messages(id) ON DELETE CASCADE;
+
+-- Link existing messages to the message sent just before them
+WITH ordered AS (
+  SELECT
+    id,
+    lag(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+)
+UPDATE messages
+SET parent_message_id = ordered.previous_id
+FROM ordered
+WHERE messages.id = ordered.id
+AND messages.parent_message_id IS NULL
+AND ordered.previous_id IS NOT NULL;
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS idx_messages_parent_message_id ON messages(parent_message_id);
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN messages.parent_message_id IS 'Message this one follows; siblings with the same parent are alternative branches';
@@ -0,0 +1,86 @@
+/*
+  # Add attachments table
+
+  1. New Tables
+    - `attachments`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages)
+      - `file_name` (text): Original file name
+      - `mime_type` (text): MIME type reported by the browser
+      - `size` (bigint): File size in bytes
+      - `bucket` (text): Storage bucket holding the file
+      - `path` (text): Object path inside the bucket
+      - `checksum` (text): SHA-256 of the file contents, hex encoded
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Copy existing `messages.document_url` values into `attachments`
+    - `messages.document_url` is kept for older clients but no longer written
+
+  3. Security
+    - Enable RLS on `attachments`
+    - Add policies for:
+      - Users can add attachments to messages in their conversations
+      - Users can view attachments of messages in their conversations
+*/
+
+-- Create attachments table
+CREATE TABLE IF NOT EXISTS attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  mime_type text,
+  size bigint,
+  bucket text NOT NULL,
+  path text NOT NULL,
+  checksum text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can insert attachments in their conversations"
+  ON attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM messages
+      JOIN conversations ON conversations.id = messages.conversation_id
+      WHERE messages.id = attachments.message_id
+      AND conversations.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view attachments in their conversations"
+  ON attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      JOIN conversations ON conversations.id = messages.conversation_id
+      WHERE messages.id = attachments.message_id
+      AND conversations.created_by = auth.uid()
+    )
+  );
+
+-- Move existing single-document uploads over
+INSERT INTO attachments (message_id, file_name, bucket, path, created_at)
+SELECT
+  id,
+  regexp_replace(document_url, '^.*/', ''),
+  substring(document_url FROM '/object/public/([^/]+)/'),
+  substring(document_url FROM '/object/public/[^/]+/(.+)$'),
+  created_at
+FROM messages
+WHERE document_url IS NOT NULL
+AND document_url ~ '/object/public/[^/]+/.+$';
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id);
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN messages.document_url IS 'Deprecated: superseded by the attachments table';
@@ -0,0 +1,114 @@
+/*
+  # Add answer feedback
+
+  1. New Tables
+    - `message_feedback`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages): The rated assistant answer
+      - `user_id` (uuid, references profiles): Who left the feedback
+      - `rating` (smallint): 1 for thumbs up, -1 for thumbs down
+      - `reason` (text): Reason category
+      - `comment` (text): Free text
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. New Functions
+    - `get_workflow_feedback_report(p_workflow_id)`: Feedback for a workflow
+      together with the rated question and answer, for admins only
+
+  3. Security
+    - Enable RLS on `message_feedback`
+    - Add policies for:
+      - Users can manage their own feedback on messages in their conversations
+      - Admins can read all feedback
+*/
+
+-- Create message_feedback table
+CREATE TABLE IF NOT EXISTS message_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating smallint NOT NULL,
+  reason text,
+  comment text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(message_id, user_id),
+  CONSTRAINT valid_rating CHECK (rating IN (-1, 1)),
+  CONSTRAINT valid_reason CHECK (
+    reason IS NULL OR
+    reason IN ('helpful', 'incorrect', 'incomplete', 'irrelevant', 'formatting', 'too_slow', 'other')
+  )
+);
+
+-- Enable RLS
+ALTER TABLE message_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage their own feedback"
+  ON message_feedback
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages
+      JOIN conversations ON conversations.id = messages.conversation_id
+      WHERE messages.id = message_feedback.message_id
+      AND messages.sender_type = 'assistant'
+      AND conversations.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all feedback"
+  ON message_feedback
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Add updated_at trigger
+CREATE TRIGGER update_message_feedback_updated_at
+  BEFORE UPDATE ON message_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_message_feedback_message_id ON message_feedback(message_id);
+CREATE INDEX idx_message_feedback_created_at ON message_feedback(created_at DESC);
+
+-- Create function to build the per-workflow quality report
+CREATE OR REPLACE FUNCTION get_workflow_feedback_report(p_workflow_id uuid)
+RETURNS TABLE (
+  feedback_id uuid,
+  rating smallint,
+  reason text,
+  comment text,
+  created_at timestamptz,
+  conversation_id uuid,
+  message_id uuid,
+  question text,
+  answer text
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view feedback reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.rating,
+    f.reason,
+    f.comment,
+    f.created_at,
+    c.id,
+    m.id,
+    q.text,
+    m.text
+  FROM message_feedback f
+  JOIN messages m ON m.id = f.message_id
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN messages q ON q.id = m.parent_message_id
+  WHERE c.workflow_id = p_workflow_id
+  ORDER BY f.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,279 @@
+/*
+  # Add conversation sharing
+
+  1. New Tables
+    - `conversation_shares`
+      - `id` (uuid, primary key)
+      - `conversation_id` (uuid, references conversations)
+      - `scope` (text): 'user' for a named user, 'company' for everyone in the
+        owner's company
+      - `shared_with` (uuid, references profiles): Recipient for 'user' shares
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+    - `conversation_share_links`
+      - `id` (uuid, primary key)
+      - `conversation_id` (uuid, references conversations)
+      - `token` (text, unique): Random token used in the read-only link
+      - `expires_at` (timestamptz): Optional expiry
+      - `revoked_at` (timestamptz): Set when the owner revokes the link
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `can_view_conversation(p_conversation_id)`: Owner or direct grant check,
+      used by the RLS policies below
+    - `search_share_recipients(p_query)`: Active users matching an email, for
+      picking share recipients without exposing the profiles table
+    - `get_conversation_shares(p_conversation_id)`: Grants on a conversation
+      with recipient emails, for the owner
+    - `get_shared_conversation(p_token)`: Conversation, messages and
+      attachments behind a valid share link
+
+  3. Security
+    - Enable RLS on both tables
+    - Owners can manage shares and links on their conversations
+    - Recipients can see the grants made to them
+    - Conversations, messages and attachments are readable by anyone the
+      conversation is shared with; writes stay restricted to the owner
+*/
+
+-- Create conversation_shares table
+CREATE TABLE IF NOT EXISTS conversation_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  shared_with uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(conversation_id, scope, shared_with),
+  CONSTRAINT valid_scope CHECK (
+    (scope = 'user' AND shared_with IS NOT NULL) OR
+    (scope = 'company' AND shared_with IS NULL)
+  )
+);
+
+-- Only one company-wide grant per conversation (NULLs are distinct in UNIQUE)
+CREATE UNIQUE INDEX idx_conversation_shares_company
+  ON conversation_shares(conversation_id)
+  WHERE scope = 'company';
+
+-- Create conversation_share_links table
+CREATE TABLE IF NOT EXISTS conversation_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE conversation_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Create function to check read access to a conversation. SECURITY DEFINER
+-- keeps the conversations and conversation_shares policies from recursing
+-- into each other.
+CREATE OR REPLACE FUNCTION can_view_conversation(p_conversation_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id = p_conversation_id
+    AND (
+      c.created_by = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM conversation_shares s
+        WHERE s.conversation_id = c.id
+        AND s.scope = 'user'
+        AND s.shared_with = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM conversation_shares s
+        JOIN profiles owner ON owner.id = c.created_by
+        JOIN profiles viewer ON viewer.id = auth.uid()
+        WHERE s.conversation_id = c.id
+        AND s.scope = 'company'
+        AND owner.company_name IS NOT NULL
+        AND owner.company_name = viewer.company_name
+      )
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create policies for shares
+CREATE POLICY "Owners can manage conversation shares"
+  ON conversation_shares
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_shares.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_shares.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Recipients can view their shares"
+  ON conversation_shares
+  FOR SELECT
+  TO authenticated
+  USING (shared_with = auth.uid());
+
+CREATE POLICY "Owners can manage share links"
+  ON conversation_share_links
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_share_links.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_share_links.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+  );
+
+-- Extend read access on shared conversations
+CREATE POLICY "Users can view conversations shared with them"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (can_view_conversation(id));
+
+CREATE POLICY "Users can view messages in conversations shared with them"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (can_view_conversation(conversation_id));
+
+CREATE POLICY "Users can view attachments in conversations shared with them"
+  ON attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = attachments.message_id
+      AND can_view_conversation(messages.conversation_id)
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX idx_conversation_shares_conversation_id ON conversation_shares(conversation_id);
+CREATE INDEX idx_conversation_shares_shared_with ON conversation_shares(shared_with);
+CREATE INDEX idx_conversation_share_links_conversation_id ON conversation_share_links(conversation_id);
+
+-- Create function to look up share recipients
+CREATE OR REPLACE FUNCTION search_share_recipients(p_query text)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  company_name text
+) AS $$
+BEGIN
+  IF length(trim(p_query)) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.email, p.company_name
+  FROM profiles p
+  WHERE p.email ILIKE '%' || trim(p_query) || '%'
+  AND p.status = true
+  AND p.id <> auth.uid()
+  ORDER BY p.email
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to list the grants on a conversation
+CREATE OR REPLACE FUNCTION get_conversation_shares(p_conversation_id uuid)
+RETURNS TABLE (
+  id uuid,
+  scope text,
+  shared_with uuid,
+  email text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE conversations.id = p_conversation_id
+    AND conversations.created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can view conversation shares';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.scope, s.shared_with, p.email, s.created_at
+  FROM conversation_shares s
+  LEFT JOIN profiles p ON p.id = s.shared_with
+  WHERE s.conversation_id = p_conversation_id
+  ORDER BY s.created_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create function to resolve a read-only share link
+CREATE OR REPLACE FUNCTION get_shared_conversation(p_token text)
+RETURNS jsonb AS $$
+DECLARE
+  v_conversation_id uuid;
+BEGIN
+  SELECT l.conversation_id INTO v_conversation_id
+  FROM conversation_share_links l
+  WHERE l.token = p_token
+  AND l.revoked_at IS NULL
+  AND (l.expires_at IS NULL OR l.expires_at > now());
+
+  IF v_conversation_id IS NULL THEN
+    RAISE EXCEPTION 'This share link is invalid, expired or has been revoked';
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'id', c.id,
+      'title', c.title,
+      'created_at', c.created_at,
+      'workflow_name', w.name,
+      'messages', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'parent_message_id', m.parent_message_id,
+            'sender_type', m.sender_type,
+            'text', m.text,
+            'details', m.details,
+            'created_at', m.created_at,
+            'attachments', COALESCE((
+              SELECT jsonb_agg(to_jsonb(a) ORDER BY a.created_at)
+              FROM attachments a
+              WHERE a.message_id = m.id
+            ), '[]'::jsonb)
+          )
+          ORDER BY m.created_at
+        )
+        FROM messages m
+        WHERE m.conversation_id = c.id
+      ), '[]'::jsonb)
+    )
+    FROM conversations c
+    LEFT JOIN workflows w ON w.id = c.workflow_id
+    WHERE c.id = v_conversation_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,108 @@
+/*
+  # Add conversation organization
+
+  1. New Tables
+    - `conversation_folders`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+    - `conversation_tags`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `color` (text): One of the palette keys used by the Sidebar
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+    - `conversation_tag_assignments`
+      - `conversation_id` (uuid, references conversations)
+      - `tag_id` (uuid, references conversation_tags)
+
+  2. Changes
+    - Add `pinned` to `conversations`
+    - Add `folder_id` to `conversations`; deleting a folder moves its
+      conversations back to the top level
+
+  3. Security
+    - Enable RLS on the new tables
+    - Users can only manage their own folders, tags and tag assignments
+*/
+
+-- Create conversation_folders table
+CREATE TABLE IF NOT EXISTS conversation_folders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(created_by, name)
+);
+
+-- Create conversation_tags table
+CREATE TABLE IF NOT EXISTS conversation_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  color text NOT NULL DEFAULT 'purple',
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(created_by, name),
+  CONSTRAINT valid_color CHECK (
+    color IN ('purple', 'blue', 'green', 'yellow', 'orange', 'red', 'gray')
+  )
+);
+
+-- Create conversation_tag_assignments table
+CREATE TABLE IF NOT EXISTS conversation_tag_assignments (
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES conversation_tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (conversation_id, tag_id)
+);
+
+-- Add organization columns to conversations
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS pinned boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS folder_id uuid REFERENCES conversation_folders(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE conversation_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_tag_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage their own folders"
+  ON conversation_folders
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can manage their own tags"
+  ON conversation_tags
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can tag their own conversations"
+  ON conversation_tag_assignments
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_tag_assignments.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_tag_assignments.conversation_id
+      AND conversations.created_by = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM conversation_tags
+      WHERE conversation_tags.id = conversation_tag_assignments.tag_id
+      AND conversation_tags.created_by = auth.uid()
+    )
+  );
+
+-- Create indexes for better query performance
+CREATE INDEX idx_conversations_folder_id ON conversations(folder_id);
+CREATE INDEX idx_conversations_pinned_created_at ON conversations(created_by, pinned DESC, created_at DESC);
+CREATE INDEX idx_conversation_tag_assignments_tag_id ON conversation_tag_assignments(tag_id);
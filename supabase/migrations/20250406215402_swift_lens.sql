@@ -0,0 +1,94 @@
+/*
+  # Add full-text search over conversations
+
+  1. Changes
+    - Add generated `search_vector` columns to `messages` (message text) and
+      `conversations` (title)
+    - Add GIN indexes on both
+
+  2. New Functions
+    - `search_conversations(p_query, p_limit)`: Ranks the current user's
+      messages and conversation titles against a web-search style query and
+      returns highlighted snippets. Title-only hits have a NULL `message_id`.
+
+  3. Security
+    - The function runs with the caller's rights and only searches
+      conversations created by the caller
+*/
+
+-- Add search columns
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(text, ''))) STORED;
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(title, ''))) STORED;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_conversations_search_vector ON conversations USING GIN (search_vector);
+
+-- Create search function
+CREATE OR REPLACE FUNCTION search_conversations(p_query text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  conversation_id uuid,
+  conversation_title text,
+  workflow_id uuid,
+  workflow_name text,
+  message_id uuid,
+  sender_type text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+) AS $$
+DECLARE
+  v_query tsquery := websearch_to_tsquery('english', p_query);
+  v_headline_options text := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2';
+BEGIN
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM (
+    SELECT
+      c.id AS conversation_id,
+      c.title AS conversation_title,
+      c.workflow_id AS workflow_id,
+      w.name AS workflow_name,
+      m.id AS message_id,
+      m.sender_type::text AS sender_type,
+      -- Older answers were stored as HTML; strip tags so only the <mark>
+      -- highlights remain in the snippet
+      ts_headline('english', regexp_replace(m.text, '<[^>]+>', ' ', 'g'), v_query, v_headline_options) AS snippet,
+      ts_rank(m.search_vector, v_query) AS rank,
+      m.created_at AS created_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    LEFT JOIN workflows w ON w.id = c.workflow_id
+    WHERE c.created_by = auth.uid()
+    AND m.search_vector @@ v_query
+
+    UNION ALL
+
+    SELECT
+      c.id,
+      c.title,
+      c.workflow_id,
+      w.name,
+      NULL::uuid,
+      NULL::text,
+      ts_headline('english', c.title, v_query, v_headline_options),
+      -- Title hits outrank a single message hit with the same terms
+      ts_rank(c.search_vector, v_query) * 2,
+      c.created_at
+    FROM conversations c
+    LEFT JOIN workflows w ON w.id = c.workflow_id
+    WHERE c.created_by = auth.uid()
+    AND c.search_vector @@ v_query
+  ) results
+  ORDER BY results.rank DESC, results.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
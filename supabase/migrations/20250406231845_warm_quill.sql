@@ -0,0 +1,78 @@
+/*
+  # Add prompt templates
+
+  1. New Tables
+    - `prompt_templates`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `body` (text): Prompt text with `{{placeholder}}` markers
+      - `scope` (text): 'personal' or 'company' (visible to everyone in the
+        author's company)
+      - `workflow_ids` (uuid[]): Workflows the template applies to; empty
+        means all workflows
+      - `created_by` (uuid, references profiles)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. New Functions
+    - `shares_company_with(p_user_id)`: Whether the current user and
+      `p_user_id` belong to the same company
+
+  3. Security
+    - Enable RLS on `prompt_templates`
+    - Authors can manage their own templates
+    - Company templates are readable by users in the author's company
+*/
+
+-- Create prompt_templates table
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  body text NOT NULL,
+  scope text NOT NULL DEFAULT 'personal',
+  workflow_ids uuid[] NOT NULL DEFAULT '{}',
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_scope CHECK (scope IN ('personal', 'company'))
+);
+
+-- Enable RLS
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create function to compare companies; profiles are only readable by their
+-- owner, so this runs as definer
+CREATE OR REPLACE FUNCTION shares_company_with(p_user_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles me
+    JOIN profiles other ON other.id = p_user_id
+    WHERE me.id = auth.uid()
+    AND me.company_name IS NOT NULL
+    AND me.company_name = other.company_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Create policies
+CREATE POLICY "Users can manage their own templates"
+  ON prompt_templates
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can view company templates"
+  ON prompt_templates
+  FOR SELECT
+  TO authenticated
+  USING (scope = 'company' AND shares_company_with(created_by));
+
+-- Add updated_at trigger
+CREATE TRIGGER update_prompt_templates_updated_at
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes for better query performance
+CREATE INDEX idx_prompt_templates_created_by ON prompt_templates(created_by);
+CREATE INDEX idx_prompt_templates_workflow_ids ON prompt_templates USING GIN (workflow_ids);
@@ -0,0 +1,72 @@
+/*
+  # Add realtime sync and unread tracking
+
+  1. Changes
+    - Add `last_answer_at` to `conversations`, kept up to date by a trigger
+      whenever an assistant message is saved
+    - Add `last_read_at` to `conversations`; a conversation is unread while
+      `last_answer_at` is later than `last_read_at`
+    - Publish `conversations`, `messages` and `attachments` to Supabase
+      Realtime so open tabs and devices receive changes
+
+  2. New Functions
+    - `mark_conversation_read(p_conversation_id)`: Sets `last_read_at` using
+      the database clock, so it compares cleanly with `last_answer_at`
+
+  3. Security
+    - Realtime delivers rows through the existing RLS policies, so users only
+      receive changes to conversations they can view
+    - Only the owner can mark a conversation as read
+*/
+
+-- Add unread tracking columns
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS last_answer_at timestamptz,
+ADD COLUMN IF NOT EXISTS last_read_at timestamptz;
+
+-- Existing conversations start out read
+UPDATE conversations c
+SET last_answer_at = m.last_answer_at,
+    last_read_at = m.last_answer_at
+FROM (
+  SELECT conversation_id, max(created_at) AS last_answer_at
+  FROM messages
+  WHERE sender_type = 'assistant'
+  GROUP BY conversation_id
+) m
+WHERE m.conversation_id = c.id;
+
+-- Create function to stamp new answers; runs as definer so answers saved
+-- into a conversation always update it
+CREATE OR REPLACE FUNCTION touch_conversation_last_answer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sender_type = 'assistant' THEN
+    UPDATE conversations
+    SET last_answer_at = now()
+    WHERE id = NEW.conversation_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER touch_conversation_last_answer
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_conversation_last_answer();
+
+-- Create function to mark a conversation as read
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE conversations
+  SET last_read_at = now()
+  WHERE id = p_conversation_id
+  AND created_by = auth.uid()
+  AND last_answer_at IS NOT NULL
+  AND (last_read_at IS NULL OR last_read_at < last_answer_at);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Publish changes to Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE conversations, messages, attachments;
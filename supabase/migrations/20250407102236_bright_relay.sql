@@ -0,0 +1,32 @@
+/*
+  # Add provider to workflow API configuration
+
+  1. Changes
+    - `api_config` may carry a `provider` key: 'mindstudio', 'openai' or
+      'webhook'. Configurations without one keep using MindStudio.
+    - Existing configurations are marked as MindStudio
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+UPDATE workflows
+SET api_config = api_config || jsonb_build_object('provider', 'mindstudio')
+WHERE api_config IS NOT NULL
+AND NOT api_config ? 'provider';
+
+ALTER TABLE workflows DROP CONSTRAINT IF EXISTS valid_api_config;
+
+ALTER TABLE workflows
+ADD CONSTRAINT valid_api_config CHECK (
+  (api_config IS NULL) OR (
+    jsonb_typeof(api_config) = 'object'
+    AND api_config ? 'method'
+    AND api_config ? 'url'
+    AND api_config ? 'content_type'
+    AND (
+      NOT api_config ? 'provider'
+      OR api_config->>'provider' IN ('mindstudio', 'openai', 'webhook')
+    )
+  )
+);
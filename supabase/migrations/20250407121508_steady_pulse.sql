@@ -0,0 +1,48 @@
+/*
+  # Add request retry policy to workflows
+
+  1. Changes
+    - Add `retry_policy` JSONB column to `workflows`
+      - `timeout_ms` (integer): longest wait for the worker to start or continue answering
+      - `max_retries` (integer): retries after the first attempt
+      - `base_delay_ms` (integer): first backoff delay, doubled on every retry
+      - `breaker_threshold` (integer): consecutive failed requests before
+        requests are paused (0 disables the circuit breaker)
+      - `breaker_cooldown_ms` (integer): how long requests stay paused
+    - Add check constraint for the policy structure
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+-- Add retry_policy column
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS retry_policy jsonb DEFAULT jsonb_build_object(
+  'timeout_ms', 60000,
+  'max_retries', 2,
+  'base_delay_ms', 1000,
+  'breaker_threshold', 5,
+  'breaker_cooldown_ms', 30000
+);
+
+-- Update any null values to the default policy
+UPDATE workflows
+SET retry_policy = jsonb_build_object(
+  'timeout_ms', 60000,
+  'max_retries', 2,
+  'base_delay_ms', 1000,
+  'breaker_threshold', 5,
+  'breaker_cooldown_ms', 30000
+)
+WHERE retry_policy IS NULL;
+
+-- Add check constraint for retry_policy structure
+ALTER TABLE workflows
+ADD CONSTRAINT valid_retry_policy CHECK (
+  jsonb_typeof(retry_policy) = 'object' AND
+  (retry_policy->>'timeout_ms')::integer >= 1000 AND
+  (retry_policy->>'max_retries')::integer BETWEEN 0 AND 10
+);
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN workflows.retry_policy IS 'Timeout, retry and circuit breaker settings for requests to the worker';
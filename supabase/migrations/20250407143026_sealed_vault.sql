@@ -0,0 +1,43 @@
+/*
+  # Keep worker tokens out of the browser
+
+  1. Changes
+    - Add generated `has_api_auth_token` column to `workflows`, so the
+      workflow form can tell whether a token is saved without reading it
+    - Workers are now called through the `worker-proxy` Edge Function, which
+      reads `api_auth_token` with the service role
+
+  2. Security
+    - Revoke SELECT on `workflows.api_auth_token` from `anon` and
+      `authenticated`: the table-wide grant is replaced by a grant on every
+      other column. Columns added to `workflows` later need their own
+      `GRANT SELECT (column)` to be readable by clients.
+    - INSERT and UPDATE are unchanged, so owners and admins can still set a
+      new token
+    - Maintain existing RLS policies
+*/
+
+-- Add has_api_auth_token column
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS has_api_auth_token boolean
+GENERATED ALWAYS AS (coalesce(api_auth_token, '') <> '') STORED;
+
+-- Let clients read every column except the token
+REVOKE SELECT ON workflows FROM anon, authenticated;
+
+DO $$
+DECLARE
+  readable_columns text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ')
+  INTO readable_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+  AND table_name = 'workflows'
+  AND column_name <> 'api_auth_token';
+
+  EXECUTE format('GRANT SELECT (%s) ON workflows TO anon, authenticated', readable_columns);
+END $$;
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN workflows.api_auth_token IS 'Worker credential; only readable server-side by the worker-proxy Edge Function';
@@ -0,0 +1,96 @@
+/*
+  # Make company membership admin-managed
+
+  1. Changes
+    - Only admins can change `profiles.company_name`; users no longer set
+      their own company
+    - `can_view_conversation` uses `shares_company_with` for company shares,
+      like prompt templates do
+    - `search_share_recipients` only returns the id and email, and only for
+      people in the caller's company or an exact email match
+
+  2. Security
+    - Company-scoped sharing used to trust a value every user could edit on
+      their own profile, so anyone could join any company by renaming theirs
+    - Recipient search no longer lists users of other companies
+*/
+
+-- Create function to stop users from changing their own company
+CREATE OR REPLACE FUNCTION protect_profile_company()
+RETURNS trigger AS $$
+BEGIN
+  -- auth.uid() is NULL for server-side updates, which are trusted
+  IF NEW.company_name IS DISTINCT FROM OLD.company_name
+    AND auth.uid() IS NOT NULL
+    AND NOT is_admin()
+  THEN
+    RAISE EXCEPTION 'Only admins can change a company name';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_profile_company ON profiles;
+CREATE TRIGGER protect_profile_company
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_company();
+
+-- Update the read access check to use the shared company check
+CREATE OR REPLACE FUNCTION can_view_conversation(p_conversation_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id = p_conversation_id
+    AND (
+      c.created_by = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM conversation_shares s
+        WHERE s.conversation_id = c.id
+        AND s.scope = 'user'
+        AND s.shared_with = auth.uid()
+      )
+      OR (
+        EXISTS (
+          SELECT 1 FROM conversation_shares s
+          WHERE s.conversation_id = c.id
+          AND s.scope = 'company'
+        )
+        AND shares_company_with(c.created_by)
+      )
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Replace the recipient search; its result columns change
+DROP FUNCTION IF EXISTS search_share_recipients(text);
+
+CREATE FUNCTION search_share_recipients(p_query text)
+RETURNS TABLE (
+  id uuid,
+  email text
+) AS $$
+BEGIN
+  IF length(trim(p_query)) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.email
+  FROM profiles p
+  WHERE p.status = true
+  AND p.id <> auth.uid()
+  AND (
+    lower(p.email) = lower(trim(p_query))
+    OR (
+      p.email ILIKE '%' || trim(p_query) || '%'
+      AND shares_company_with(p.id)
+    )
+  )
+  ORDER BY p.email
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,66 @@
+/*
+  # Keep worker request settings out of the browser
+
+  1. Changes
+    - Add `client_api_config` to `workflows`: the part of `api_config` the
+      chat needs to read replies (`provider` and `response_mapping`). A
+      trigger keeps it in sync with `api_config`.
+    - New `get_workflow_api_config(p_workflow_id)`: the full `api_config`,
+      for the workflow form. Returns NULL unless the caller is an admin or
+      created the workflow.
+
+  2. Security
+    - Revoke SELECT on `workflows.api_config` from `anon` and
+      `authenticated`; its URL and header template can hold credentials, and
+      since requests go through the `worker-proxy` Edge Function only
+      people who manage a workflow need them
+    - Grant SELECT on `workflows.client_api_config` instead
+*/
+
+-- Add client_api_config column
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS client_api_config jsonb;
+
+-- Create function to derive it from api_config
+CREATE OR REPLACE FUNCTION set_workflow_client_api_config()
+RETURNS trigger AS $$
+BEGIN
+  NEW.client_api_config := jsonb_strip_nulls(jsonb_build_object(
+    'provider', NEW.api_config->'provider',
+    'response_mapping', NEW.api_config->'response_mapping'
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_workflow_client_api_config ON workflows;
+CREATE TRIGGER set_workflow_client_api_config
+  BEFORE INSERT OR UPDATE ON workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION set_workflow_client_api_config();
+
+-- Fill it in for existing workflows
+UPDATE workflows
+SET client_api_config = jsonb_strip_nulls(jsonb_build_object(
+  'provider', api_config->'provider',
+  'response_mapping', api_config->'response_mapping'
+));
+
+-- Let clients read the narrowed config only
+REVOKE SELECT (api_config) ON workflows FROM anon, authenticated;
+GRANT SELECT (client_api_config) ON workflows TO anon, authenticated;
+
+-- Create function to read the full config for the workflow form
+CREATE OR REPLACE FUNCTION get_workflow_api_config(p_workflow_id uuid)
+RETURNS jsonb AS $$
+BEGIN
+  RETURN (
+    SELECT w.api_config FROM workflows w
+    WHERE w.id = p_workflow_id
+    AND (w.created_by = auth.uid() OR is_admin())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Add helpful comment for documentation
+COMMENT ON COLUMN workflows.api_config IS 'Worker request settings; read by clients through get_workflow_api_config, by the worker-proxy Edge Function directly';
